@@ -0,0 +1,202 @@
+import type {TokenRange} from './highlight.js';
+import {getLineStart} from './lines.js';
+
+/* eslint-disable @typescript-eslint/naming-convention */
+/**
+ * Closing characters of brackets and quotes.
+ */
+const pairs: Record<string, string> = {
+	'(': ')',
+	'[': ']',
+	'{': '}',
+	"'": "'",
+	'"': '"',
+	'`': '`',
+};
+
+const brackets: Record<string, {match: string; direction: 1 | -1}> = {
+	'(': {match: ')', direction: 1},
+	'[': {match: ']', direction: 1},
+	'{': {match: '}', direction: 1},
+	')': {match: '(', direction: -1},
+	']': {match: '[', direction: -1},
+	'}': {match: '{', direction: -1},
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Token types whose brackets and quotes are text, not code.
+ */
+const textTokenTypes = new Set(['string', 'comment']);
+
+/**
+ * Returns which offsets of the value are inside strings and comments.
+ */
+function getTextOffsets(length: number, tokens: TokenRange[]): Uint8Array {
+	const isText = new Uint8Array(length);
+
+	for (const token of tokens) {
+		if (textTokenTypes.has(token.type)) {
+			isText.fill(1, token.start, Math.min(token.end, length));
+		}
+	}
+
+	return isText;
+}
+
+function isQuote(char: string): boolean {
+	return pairs[char] === char;
+}
+
+/**
+ * Returns the closing character of a bracket or quote, or `undefined` for other text.
+ */
+export function getClosingCharacter(text: string): string | undefined {
+	return pairs[text];
+}
+
+/**
+ * Whether typing `char` at the cursor should also insert its closing character.
+ * Brackets are closed before whitespace and other closing characters, and
+ * quotes only when they start a string rather than end one.
+ * Nothing is closed inside strings and comments.
+ */
+export function shouldAutoClose(
+	value: string,
+	cursorOffset: number,
+	tokens: TokenRange[],
+	char: string,
+): boolean {
+	const next = value[cursorOffset];
+	const previous = value[cursorOffset - 1];
+	const isInText = tokens.some(
+		token =>
+			textTokenTypes.has(token.type) &&
+			token.start < cursorOffset &&
+			cursorOffset < token.end,
+	);
+
+	if (isInText || (next !== undefined && !/[\s)\]}]/.test(next))) {
+		return false;
+	}
+
+	if (!isQuote(char)) {
+		return true;
+	}
+
+	const lineBefore = value.slice(
+		getLineStart(value, cursorOffset),
+		cursorOffset,
+	);
+	const quoteCount = lineBefore.split(char).length - 1;
+
+	return (
+		(previous === undefined || !/[\p{L}\p{N}_$]/u.test(previous)) &&
+		previous !== char &&
+		quoteCount % 2 === 0
+	);
+}
+
+/**
+ * Whether the cursor is between an opening character and its closing one, like `(|)`.
+ */
+export function isInEmptyPair(value: string, cursorOffset: number): boolean {
+	const opener = value[cursorOffset - 1];
+
+	return (
+		opener !== undefined &&
+		pairs[opener] !== undefined &&
+		pairs[opener] === value[cursorOffset]
+	);
+}
+
+/**
+ * Moves offsets of automatically inserted closing characters along with an edit
+ * that turned `previousValue` into `value`. Offsets inside the edited text and
+ * before the cursor are dropped, since typing there no longer moves over them.
+ */
+export function mapAutoClosed(
+	autoClosed: number[],
+	previousValue: string,
+	value: string,
+	cursorOffset: number,
+): number[] {
+	if (autoClosed.length === 0) {
+		return autoClosed;
+	}
+
+	let prefixLength = 0;
+	while (
+		prefixLength < Math.min(previousValue.length, value.length) &&
+		previousValue[prefixLength] === value[prefixLength]
+	) {
+		prefixLength++;
+	}
+
+	let suffixLength = 0;
+	while (
+		suffixLength <
+			Math.min(previousValue.length, value.length) - prefixLength &&
+		previousValue.at(-1 - suffixLength) === value.at(-1 - suffixLength)
+	) {
+		suffixLength++;
+	}
+
+	const delta = value.length - previousValue.length;
+
+	return autoClosed
+		.map(offset => {
+			if (offset < prefixLength) {
+				return offset;
+			}
+
+			return offset >= previousValue.length - suffixLength
+				? offset + delta
+				: -1;
+		})
+		.filter(offset => offset >= cursorOffset);
+}
+
+/**
+ * Returns the offsets of the bracket next to the cursor and its match, preferring
+ * the bracket after the cursor. Brackets in strings and comments are skipped.
+ */
+export function findMatchingBrackets(
+	value: string,
+	cursorOffset: number,
+	tokens: TokenRange[],
+): [number, number] | undefined {
+	const isText = getTextOffsets(value.length, tokens);
+
+	for (const offset of [cursorOffset, cursorOffset - 1]) {
+		const bracket = brackets[value[offset] ?? ''];
+
+		if (!bracket || isText[offset]) {
+			continue;
+		}
+
+		let depth = 0;
+
+		for (
+			let index = offset;
+			index >= 0 && index < value.length;
+			index += bracket.direction
+		) {
+			if (isText[index]) {
+				continue;
+			}
+
+			if (value[index] === value[offset]) {
+				depth++;
+			} else if (value[index] === bracket.match) {
+				depth--;
+			}
+
+			if (depth === 0) {
+				return [offset, index];
+			}
+		}
+	}
+
+	return undefined;
+}
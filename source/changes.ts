@@ -0,0 +1,221 @@
+import type {Selection} from './selection.js';
+import type {EditKind} from './undo.js';
+
+/**
+ * What changed the value: typing (including deleting and new lines), pasting or
+ * yanking, cutting, accepting a suggestion or completion, undo, redo, recalling
+ * the submission history, or a command like indenting or replacing find matches.
+ */
+export type ChangeCause =
+	| 'typing'
+	| 'paste'
+	| 'cut'
+	| 'suggestion'
+	| 'undo'
+	| 'redo'
+	| 'history'
+	| 'command';
+
+/**
+ * Edit that turned the previous value into the new one, passed to `onChange`.
+ */
+export type TextChange = {
+	/**
+	 * Range of the previous value that was replaced.
+	 */
+	range: Selection;
+	/**
+	 * Text that replaced the range.
+	 */
+	text: string;
+	cause: ChangeCause;
+};
+
+/**
+ * Replacement of a range of the value with text.
+ */
+export type TextEdit = Pick<TextChange, 'range' | 'text'>;
+
+export function getChangeCause(editKind: EditKind): ChangeCause {
+	switch (editKind) {
+		case 'insert':
+		case 'delete':
+		case 'newline': {
+			return 'typing';
+		}
+
+		default: {
+			return editKind;
+		}
+	}
+}
+
+function applyEdit(value: string, {range, text}: TextEdit): string {
+	return value.slice(0, range.start) + text + value.slice(range.end);
+}
+
+/**
+ * Applies `edits` to `value` one after another.
+ */
+export function applyEdits(value: string, edits: TextEdit[]): string {
+	let current = value;
+
+	for (const edit of edits) {
+		current = applyEdit(current, edit);
+	}
+
+	return current;
+}
+
+/**
+ * Returns `edit` without the text at the start and end of its range that the
+ * replacement keeps, like `sel` when `select` replaces it, so ranges on that
+ * text move along instead of being dropped.
+ */
+export function trimEdit(value: string, {range, text}: TextEdit): TextEdit {
+	const replaced = value.slice(range.start, range.end);
+	const maxLength = Math.min(replaced.length, text.length);
+	let prefixLength = 0;
+
+	while (
+		prefixLength < maxLength &&
+		replaced[prefixLength] === text[prefixLength]
+	) {
+		prefixLength++;
+	}
+
+	let suffixLength = 0;
+
+	while (
+		suffixLength < maxLength - prefixLength &&
+		replaced[replaced.length - suffixLength - 1] ===
+			text[text.length - suffixLength - 1]
+	) {
+		suffixLength++;
+	}
+
+	return {
+		range: {start: range.start + prefixLength, end: range.end - suffixLength},
+		text: text.slice(prefixLength, text.length - suffixLength),
+	};
+}
+
+/**
+ * Returns the edits that undo `edits`, which were applied to `value` one after another.
+ */
+export function invertEdits(value: string, edits: TextEdit[]): TextEdit[] {
+	const inverted: TextEdit[] = [];
+	let current = value;
+
+	for (const edit of edits) {
+		const {start, end} = edit.range;
+
+		inverted.unshift({
+			range: {start, end: start + edit.text.length},
+			text: current.slice(start, end),
+		});
+		current = applyEdit(current, edit);
+	}
+
+	return inverted;
+}
+
+/**
+ * Returns the smallest range of `previous` to replace to get `next`, and the text to replace it with.
+ * The text after `cursorOffset` in `next` is assumed to be unchanged, which decides
+ * where text was typed or deleted when that's ambiguous, like typing `l` in `hel|lo`.
+ */
+export function diffValues(
+	previous: string,
+	next: string,
+	cursorOffset = 0,
+): {range: Selection; text: string} {
+	const maxLength = Math.min(previous.length, next.length);
+	const maxSuffixLength = Math.min(
+		maxLength,
+		Math.max(0, next.length - cursorOffset),
+	);
+	let suffixLength = 0;
+
+	while (
+		suffixLength < maxSuffixLength &&
+		previous[previous.length - suffixLength - 1] ===
+			next[next.length - suffixLength - 1]
+	) {
+		suffixLength++;
+	}
+
+	let prefixLength = 0;
+
+	while (
+		prefixLength < maxLength - suffixLength &&
+		previous[prefixLength] === next[prefixLength]
+	) {
+		prefixLength++;
+	}
+
+	return {
+		range: {start: prefixLength, end: previous.length - suffixLength},
+		text: next.slice(prefixLength, next.length - suffixLength),
+	};
+}
+
+/**
+ * Returns where `offset` ends up after `change`. Offsets in the replaced text
+ * move to its start, or to the end of the inserted text with the `'end'` bias.
+ * Text inserted at the offset is placed after it with the `'end'` bias, and before it otherwise.
+ */
+export function mapOffset(
+	offset: number,
+	{range, text}: TextEdit,
+	bias: 'start' | 'end',
+): number {
+	if (offset < range.start || (offset === range.start && bias === 'end')) {
+		return offset;
+	}
+
+	if (offset > range.end || (offset === range.end && bias === 'start')) {
+		return offset + text.length - (range.end - range.start);
+	}
+
+	return bias === 'start' ? range.start : range.start + text.length;
+}
+
+/**
+ * Moves `range` along with `change`, so it covers the same text. Text inserted at
+ * its edges is left out of it. Returns `undefined` when the text was removed.
+ */
+export function mapRange<T extends Selection>(
+	range: T,
+	change: TextEdit,
+): T | undefined {
+	const start = mapOffset(range.start, change, 'start');
+	const end = Math.max(start, mapOffset(range.end, change, 'end'));
+
+	return end > start || range.start === range.end
+		? {...range, start, end}
+		: undefined;
+}
+
+/**
+ * Moves ranges along with `change`, dropping those whose text was removed.
+ */
+export function mapRanges<T extends Selection>(
+	ranges: T[],
+	change: TextEdit,
+): T[] {
+	return ranges.flatMap(range => mapRange(range, change) ?? []);
+}
+
+/**
+ * Returns where the cursor ends up after a change made from outside. Text inserted
+ * at the cursor is placed before it, and in replaced text, like a keyword that
+ * was upper-cased, the cursor keeps its distance from the start.
+ */
+export function mapCursorOffset(offset: number, change: TextEdit): number {
+	const {range, text} = change;
+
+	return offset > range.start && offset < range.end
+		? Math.min(offset, range.start + text.length)
+		: mapOffset(offset, change, 'start');
+}
@@ -0,0 +1,25 @@
+import {Buffer} from 'node:buffer';
+
+/**
+ * Text copied or cut from any editor. It's shared between all editors in the
+ * process, so text can be copied from one input and pasted into another.
+ */
+let clipboardText = '';
+
+export function readClipboard(): string {
+	return clipboardText;
+}
+
+/**
+ * Saves text to the internal clipboard. When `stdout` is passed, the text is
+ * also sent to the terminal with the OSC 52 escape sequence, which terminals
+ * that support it place on the system clipboard.
+ */
+export function writeClipboard(text: string, stdout?: NodeJS.WriteStream) {
+	clipboardText = text;
+
+	if (stdout) {
+		const encodedText = Buffer.from(text).toString('base64');
+		stdout.write(`\u001B]52;c;${encodedText}\u0007`);
+	}
+}
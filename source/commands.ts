@@ -0,0 +1,1017 @@
+import {
+	getClosingCharacter,
+	isInEmptyPair,
+	shouldAutoClose,
+} from './brackets.js';
+import {trimEdit, type TextEdit} from './changes.js';
+import {readClipboard, writeClipboard} from './clipboard.js';
+import type {Completion, CompletionMenuState} from './completion.js';
+import {
+	findDecoration,
+	getDecorationsAt,
+	type Decoration,
+} from './decorations.js';
+import {startFind, type FindState} from './find.js';
+import {
+	getNextGraphemeOffset,
+	getPreviousGraphemeOffset,
+	snapToGrapheme,
+} from './graphemes.js';
+import type {TokenRange} from './highlight.js';
+import {
+	getIndentText,
+	getNewlineText,
+	indentLines,
+	outdentLines,
+	type IndentOptions,
+	type LineEdit,
+} from './indent.js';
+import {addKill, getKill, type KillRing} from './kill-ring.js';
+import {getColumn, getLineEnd, getLineStart, moveVertically} from './lines.js';
+import type {Selection} from './selection.js';
+import {
+	parseSnippet,
+	selectSnippetField,
+	type Snippet,
+	type SnippetSession,
+} from './snippets.js';
+import {
+	startHistorySearch,
+	type HistoryPosition,
+	type HistorySearch,
+} from './submission-history.js';
+import type {ResolvedSuggestion} from './suggestion.js';
+import {redo, undo, type EditKind, type UndoHistory} from './undo.js';
+import {findWordEnd, findWordStart} from './words.js';
+
+/**
+ * Editor state that commands read and produce.
+ */
+export type EditorState = {
+	value: string;
+	cursorOffset: number;
+	/**
+	 * Length of the text inserted right before the cursor, used to highlight pasted text.
+	 */
+	cursorWidth: number;
+	/**
+	 * Column the cursor tries to keep when moving between lines.
+	 */
+	preferredColumn?: number;
+	/**
+	 * Offset where the selection started, the cursor is its other end.
+	 */
+	selectionAnchor?: number;
+};
+
+/**
+ * Previous kill or yank, so consecutive kills are merged and `yankPop` can
+ * replace the text that was just yanked.
+ */
+export type LastCommand =
+	{type: 'kill'} | {type: 'yank'; start: number; end: number; depth: number};
+
+export type CommandContext = {
+	state: EditorState;
+	selection?: Selection;
+	history: UndoHistory;
+	killRing: KillRing;
+	lastCommand?: LastCommand;
+	/**
+	 * Whether the cursor can be moved, see the `showCursor` prop.
+	 */
+	showCursor: boolean;
+	/**
+	 * Suggestion for the current value, when there is one to accept.
+	 */
+	suggestion?: ResolvedSuggestion;
+	/**
+	 * Completion menu, when it's open.
+	 */
+	completion?: Completion;
+	decorations: Decoration[];
+	/**
+	 * Submitted values, oldest first.
+	 */
+	historyEntries: readonly string[];
+	/**
+	 * Position in the submission history, when an entry is shown.
+	 */
+	historyPosition?: HistoryPosition;
+	/**
+	 * Previous state of the find bar, so reopening it keeps the query and options.
+	 */
+	lastFind?: FindState;
+	/**
+	 * Whether typing brackets and quotes also inserts their closing character,
+	 * see the `autoClosePairs` prop.
+	 */
+	autoClosePairs: boolean;
+	/**
+	 * Offsets of closing characters that were inserted automatically, so typing
+	 * them moves over them instead.
+	 */
+	autoClosed: number[];
+	/**
+	 * Syntax highlighting tokens of the value.
+	 */
+	tokens: TokenRange[];
+	indentOptions: IndentOptions;
+	/**
+	 * Whether up/down arrows move between lines, so they only recall entries
+	 * on the first and last line.
+	 */
+	multiline: boolean;
+	/**
+	 * Stream to send copied text to with OSC 52, see the `systemClipboard` prop.
+	 */
+	clipboardStream?: NodeJS.WriteStream;
+	/**
+	 * Whether the value can be submitted, see the `preventSubmitOnError` prop.
+	 */
+	canSubmit: boolean;
+	/**
+	 * Snippet whose fields are being filled in, when there is one.
+	 */
+	snippet?: SnippetSession;
+};
+
+export type CommandResult = {
+	state: EditorState;
+	/**
+	 * Kind of edit, when the command changed the value.
+	 */
+	editKind?: EditKind;
+	/**
+	 * Edits that turned the value into the new one, applied one after another.
+	 */
+	edits?: TextEdit[];
+	/**
+	 * New undo history, when the command moved through it instead of editing.
+	 */
+	history?: UndoHistory;
+	killRing?: KillRing;
+	lastCommand?: LastCommand;
+	submit?: boolean;
+	acceptedSuggestion?: string;
+	/**
+	 * New state of the completion menu, when the command navigated or closed it.
+	 */
+	completionMenu?: CompletionMenuState;
+	/**
+	 * New position in the submission history, when the command moved through it.
+	 */
+	historyPosition?: HistoryPosition;
+	/**
+	 * Search to start in the submission history.
+	 */
+	historySearch?: HistorySearch;
+	/**
+	 * Find bar to open.
+	 */
+	find?: FindState;
+	/**
+	 * New offsets of automatically inserted closing characters.
+	 */
+	autoClosed?: number[];
+	/**
+	 * Snippet session to start or continue at another field.
+	 */
+	snippet?: SnippetSession;
+	/**
+	 * Whether the command ended the snippet session.
+	 */
+	exitSnippet?: boolean;
+};
+
+/**
+ * A command returns `undefined` when it doesn't apply in the current state,
+ * so the next command bound to the same key can run instead.
+ */
+type Command = (context: CommandContext) => CommandResult | undefined;
+
+function selectCompletion(
+	context: CommandContext,
+	step: number,
+): CommandResult | undefined {
+	const {completion, state} = context;
+
+	if (!completion) {
+		return undefined;
+	}
+
+	const count = completion.items.length;
+
+	return {
+		state,
+		completionMenu: {
+			selectedIndex: (completion.selectedIndex + step + count) % count,
+			isDismissed: false,
+		},
+	};
+}
+
+function moveCursor(
+	context: CommandContext,
+	cursorOffset: number,
+	extendSelection: boolean,
+): CommandResult | undefined {
+	if (!context.showCursor) {
+		return undefined;
+	}
+
+	const {state} = context;
+
+	return {
+		state: {
+			value: state.value,
+			// Never place the cursor inside an emoji or a letter with accents
+			cursorOffset: snapToGrapheme(
+				state.value,
+				cursorOffset,
+				cursorOffset < state.cursorOffset ? 'start' : 'end',
+			),
+			cursorWidth: 0,
+			selectionAnchor: extendSelection
+				? (state.selectionAnchor ?? state.cursorOffset)
+				: undefined,
+		},
+	};
+}
+
+function moveCursorVertically(
+	context: CommandContext,
+	direction: 'up' | 'down',
+	extendSelection: boolean,
+): CommandResult | undefined {
+	const {state} = context;
+	const {tabWidth} = context.indentOptions;
+	const preferredColumn =
+		state.preferredColumn ??
+		getColumn(state.value, state.cursorOffset, tabWidth);
+	const result = moveCursor(
+		context,
+		moveVertically(
+			state.value,
+			state.cursorOffset,
+			direction,
+			preferredColumn,
+			tabWidth,
+		),
+		extendSelection,
+	);
+
+	return result && {state: {...result.state, preferredColumn}};
+}
+
+/**
+ * Returns `range` clamped to `value`, with its ends in order.
+ */
+function normalizeRange(value: string, range: Selection): Selection {
+	const clamp = (offset: number) => Math.max(0, Math.min(offset, value.length));
+
+	return {
+		start: clamp(Math.min(range.start, range.end)),
+		end: clamp(Math.max(range.start, range.end)),
+	};
+}
+
+/**
+ * Replaces the text in `range` and places the cursor after the new text.
+ * The range is clamped to the value, and its ends may come in either order.
+ */
+export function replaceRange(
+	context: CommandContext,
+	range: Selection,
+	text: string,
+	editKind: EditKind,
+): CommandResult {
+	const {value} = context.state;
+	const {start, end} = normalizeRange(value, range);
+
+	return {
+		state: {
+			value: value.slice(0, start) + text + value.slice(end),
+			cursorOffset: start + text.length,
+			cursorWidth: 0,
+		},
+		editKind,
+		edits: [trimEdit(value, {range: {start, end}, text})],
+	};
+}
+
+/**
+ * Replaces the text in `range` with a snippet and selects its first field.
+ * A snippet session starts, replacing the current one, when it has fields to
+ * fill in before the final one.
+ */
+function replaceWithSnippet(
+	context: CommandContext,
+	range: Selection,
+	{text, fields}: Snippet,
+	editKind: EditKind,
+): CommandResult {
+	const result = replaceRange(context, range, text, editKind);
+	const offset = normalizeRange(context.state.value, range).start;
+	const session = {
+		fields: fields.map(field =>
+			field.map(({start, end}) => ({
+				start: offset + start,
+				end: offset + end,
+			})),
+		),
+		index: 0,
+	};
+
+	return {
+		...result,
+		state: selectSnippetField(result.state, session, 0),
+		...(fields.length > 1 && {snippet: session}),
+	};
+}
+
+function moveToSnippetField(
+	context: CommandContext,
+	step: number,
+): CommandResult | undefined {
+	const {snippet, state} = context;
+
+	if (!snippet) {
+		return undefined;
+	}
+
+	const index = Math.max(0, snippet.index + step);
+	const isFinalField = index === snippet.fields.length - 1;
+
+	return {
+		state: selectSnippetField(state, snippet, index),
+		...(isFinalField ? {exitSnippet: true} : {snippet: {...snippet, index}}),
+	};
+}
+
+/**
+ * Replaces the selection with `text`, or inserts it at the cursor when nothing is selected.
+ */
+export function insertText(
+	context: CommandContext,
+	text: string,
+	editKind: EditKind,
+): CommandResult {
+	const {selection, state} = context;
+
+	return replaceRange(
+		context,
+		selection ?? {start: state.cursorOffset, end: state.cursorOffset},
+		text,
+		editKind,
+	);
+}
+
+/**
+ * Inserts typed text, closing brackets and quotes when `autoClosePairs` is enabled.
+ * Typing a closing character right before one that was inserted automatically
+ * moves over it, and typing an opening one around a selection wraps it.
+ */
+export function typeText(
+	context: CommandContext,
+	text: string,
+	editKind: 'insert' | 'paste',
+): CommandResult {
+	const {state, selection, autoClosed} = context;
+	const {value, cursorOffset} = state;
+	const closer = getClosingCharacter(text);
+
+	if (!context.autoClosePairs || editKind !== 'insert') {
+		return insertText(context, text, editKind);
+	}
+
+	if (
+		!selection &&
+		value[cursorOffset] === text &&
+		autoClosed.includes(cursorOffset)
+	) {
+		return {
+			state: {value, cursorOffset: cursorOffset + 1, cursorWidth: 0},
+			autoClosed: autoClosed.filter(offset => offset !== cursorOffset),
+		};
+	}
+
+	if (closer && selection) {
+		return {
+			state: {
+				value:
+					value.slice(0, selection.start) +
+					text +
+					value.slice(selection.start, selection.end) +
+					closer +
+					value.slice(selection.end),
+				cursorOffset: cursorOffset + 1,
+				cursorWidth: 0,
+				selectionAnchor: (state.selectionAnchor ?? cursorOffset) + 1,
+			},
+			editKind: 'command',
+			edits: [
+				{range: {start: selection.start, end: selection.start}, text},
+				{
+					range: {start: selection.end + 1, end: selection.end + 1},
+					text: closer,
+				},
+			],
+		};
+	}
+
+	if (closer && shouldAutoClose(value, cursorOffset, context.tokens, text)) {
+		return {
+			state: {
+				value:
+					value.slice(0, cursorOffset) +
+					text +
+					closer +
+					value.slice(cursorOffset),
+				cursorOffset: cursorOffset + 1,
+				cursorWidth: 0,
+			},
+			editKind: 'insert',
+			edits: [
+				{range: {start: cursorOffset, end: cursorOffset}, text: text + closer},
+			],
+			autoClosed: [
+				...autoClosed.map(offset =>
+					offset >= cursorOffset ? offset + 2 : offset,
+				),
+				cursorOffset + 1,
+			],
+		};
+	}
+
+	return insertText(context, text, editKind);
+}
+
+/**
+ * Applies an edit of line starts, moving the cursor and the selection along with it.
+ */
+function applyLineEdit(
+	context: CommandContext,
+	edit: LineEdit | undefined,
+): CommandResult | undefined {
+	const {state} = context;
+
+	if (!edit) {
+		return undefined;
+	}
+
+	return {
+		state: {
+			value: edit.value,
+			cursorOffset: edit.mapOffset(state.cursorOffset),
+			cursorWidth: 0,
+			selectionAnchor:
+				state.selectionAnchor === undefined
+					? undefined
+					: edit.mapOffset(state.selectionAnchor),
+		},
+		editKind: 'command',
+		edits: edit.edits,
+	};
+}
+
+function kill(
+	context: CommandContext,
+	start: number,
+	end: number,
+	direction: 'forward' | 'backward',
+): CommandResult | undefined {
+	if (start >= end) {
+		return undefined;
+	}
+
+	return {
+		...replaceRange(context, {start, end}, '', 'cut'),
+		killRing: addKill(
+			context.killRing,
+			context.state.value.slice(start, end),
+			direction,
+			context.lastCommand?.type === 'kill',
+		),
+		lastCommand: {type: 'kill'},
+	};
+}
+
+function yank(
+	context: CommandContext,
+	start: number,
+	end: number,
+	depth: number,
+): CommandResult | undefined {
+	const text = getKill(context.killRing, depth);
+
+	if (text === undefined) {
+		return undefined;
+	}
+
+	return {
+		...replaceRange(context, {start, end}, text, 'paste'),
+		lastCommand: {type: 'yank', start, end: start + text.length, depth},
+	};
+}
+
+function moveThroughHistory(
+	context: CommandContext,
+	direction: 'undo' | 'redo',
+): CommandResult | undefined {
+	const {state} = context;
+	const current = {value: state.value, cursorOffset: state.cursorOffset};
+	const result =
+		direction === 'undo'
+			? undo(context.history, current)
+			: redo(context.history, current);
+
+	if (!result) {
+		return undefined;
+	}
+
+	return {
+		state: {...result.snapshot, cursorWidth: 0},
+		editKind: direction,
+		edits: result.edits,
+		history: result.history,
+	};
+}
+
+/**
+ * Shows the previous or next entry of the submission history, or the draft
+ * after the newest entry. In multi-line mode, entries are only recalled from
+ * the first or last line, so up/down still move between lines.
+ */
+function recallEntry(
+	context: CommandContext,
+	step: -1 | 1,
+): CommandResult | undefined {
+	const {historyEntries: entries, state} = context;
+	const {index, draft} = context.historyPosition ?? {
+		index: entries.length,
+		draft: state.value,
+	};
+	const nextIndex = index + step;
+	const isOnEdgeLine =
+		step === -1
+			? getLineStart(state.value, state.cursorOffset) === 0
+			: getLineEnd(state.value, state.cursorOffset) === state.value.length;
+
+	if (
+		nextIndex < 0 ||
+		nextIndex > entries.length ||
+		(context.multiline && !isOnEdgeLine)
+	) {
+		return undefined;
+	}
+
+	const value = entries[nextIndex] ?? draft;
+
+	return {
+		state: {value, cursorOffset: value.length, cursorWidth: 0},
+		editKind: 'history',
+		edits: [{range: {start: 0, end: state.value.length}, text: value}],
+		historyPosition: {index: nextIndex, draft},
+		completionMenu: {selectedIndex: 0, isDismissed: true},
+	};
+}
+
+const commands = {
+	cursorLeft: context =>
+		moveCursor(
+			context,
+			context.selection?.start ??
+				getPreviousGraphemeOffset(
+					context.state.value,
+					context.state.cursorOffset,
+				),
+			false,
+		),
+	cursorRight: context =>
+		moveCursor(
+			context,
+			context.selection?.end ??
+				getNextGraphemeOffset(context.state.value, context.state.cursorOffset),
+			false,
+		),
+	cursorUp: context => moveCursorVertically(context, 'up', false),
+	cursorDown: context => moveCursorVertically(context, 'down', false),
+	lineStart: context =>
+		moveCursor(
+			context,
+			getLineStart(context.state.value, context.state.cursorOffset),
+			false,
+		),
+	lineEnd: context =>
+		moveCursor(
+			context,
+			getLineEnd(context.state.value, context.state.cursorOffset),
+			false,
+		),
+	wordLeft: context =>
+		moveCursor(
+			context,
+			findWordStart(context.state.value, context.state.cursorOffset),
+			false,
+		),
+	wordRight: context =>
+		moveCursor(
+			context,
+			findWordEnd(context.state.value, context.state.cursorOffset),
+			false,
+		),
+	selectLeft: context =>
+		moveCursor(
+			context,
+			getPreviousGraphemeOffset(
+				context.state.value,
+				context.state.cursorOffset,
+			),
+			true,
+		),
+	selectRight: context =>
+		moveCursor(
+			context,
+			getNextGraphemeOffset(context.state.value, context.state.cursorOffset),
+			true,
+		),
+	selectUp: context => moveCursorVertically(context, 'up', true),
+	selectDown: context => moveCursorVertically(context, 'down', true),
+	selectLineStart: context =>
+		moveCursor(
+			context,
+			getLineStart(context.state.value, context.state.cursorOffset),
+			true,
+		),
+	selectLineEnd: context =>
+		moveCursor(
+			context,
+			getLineEnd(context.state.value, context.state.cursorOffset),
+			true,
+		),
+	selectWordLeft: context =>
+		moveCursor(
+			context,
+			findWordStart(context.state.value, context.state.cursorOffset),
+			true,
+		),
+	selectWordRight: context =>
+		moveCursor(
+			context,
+			findWordEnd(context.state.value, context.state.cursorOffset),
+			true,
+		),
+	selectAll(context) {
+		const {value} = context.state;
+
+		if (!context.showCursor || value === '') {
+			return undefined;
+		}
+
+		return {
+			state: {
+				value,
+				cursorOffset: value.length,
+				cursorWidth: 0,
+				selectionAnchor: 0,
+			},
+		};
+	},
+	deleteBackward(context) {
+		const {selection, state} = context;
+
+		if (selection) {
+			return insertText(context, '', 'delete');
+		}
+
+		if (state.cursorOffset === 0) {
+			return undefined;
+		}
+
+		// Deleting an opening character also deletes its closing one, like `(|)`
+		const end =
+			context.autoClosePairs && isInEmptyPair(state.value, state.cursorOffset)
+				? state.cursorOffset + 1
+				: state.cursorOffset;
+
+		return replaceRange(
+			context,
+			{
+				start: getPreviousGraphemeOffset(state.value, state.cursorOffset),
+				end,
+			},
+			'',
+			'delete',
+		);
+	},
+	deleteForward(context) {
+		const {selection, state} = context;
+
+		if (selection) {
+			return insertText(context, '', 'delete');
+		}
+
+		if (state.cursorOffset === state.value.length) {
+			return undefined;
+		}
+
+		return replaceRange(
+			context,
+			{
+				start: state.cursorOffset,
+				end: getNextGraphemeOffset(state.value, state.cursorOffset),
+			},
+			'',
+			'delete',
+		);
+	},
+	// Kills the selection when there is one, like Emacs' `kill-region`
+	killWordBackward(context) {
+		const {selection, state} = context;
+
+		if (selection) {
+			return kill(context, selection.start, selection.end, 'backward');
+		}
+
+		return kill(
+			context,
+			findWordStart(state.value, state.cursorOffset),
+			state.cursorOffset,
+			'backward',
+		);
+	},
+	killWordForward(context) {
+		const {value, cursorOffset} = context.state;
+
+		return kill(
+			context,
+			cursorOffset,
+			findWordEnd(value, cursorOffset),
+			'forward',
+		);
+	},
+	// At the end of a line, the line break is killed instead
+	killLineEnd(context) {
+		const {value, cursorOffset} = context.state;
+		const lineEnd = getLineEnd(value, cursorOffset);
+
+		return kill(
+			context,
+			cursorOffset,
+			lineEnd === cursorOffset ? Math.min(lineEnd + 1, value.length) : lineEnd,
+			'forward',
+		);
+	},
+	// At the start of a line, the preceding line break is killed instead
+	killLineStart(context) {
+		const {value, cursorOffset} = context.state;
+		const lineStart = getLineStart(value, cursorOffset);
+
+		return kill(
+			context,
+			lineStart === cursorOffset ? Math.max(lineStart - 1, 0) : lineStart,
+			cursorOffset,
+			'backward',
+		);
+	},
+	yank(context) {
+		const {selection, state} = context;
+
+		return yank(
+			context,
+			selection?.start ?? state.cursorOffset,
+			selection?.end ?? state.cursorOffset,
+			0,
+		);
+	},
+	// Replaces the text that was just yanked with the previous kill
+	yankPop(context) {
+		const {lastCommand} = context;
+
+		if (lastCommand?.type !== 'yank') {
+			return undefined;
+		}
+
+		return yank(
+			context,
+			lastCommand.start,
+			lastCommand.end,
+			lastCommand.depth + 1,
+		);
+	},
+	copy(context) {
+		const {selection, state} = context;
+
+		if (!selection) {
+			return undefined;
+		}
+
+		writeClipboard(
+			state.value.slice(selection.start, selection.end),
+			context.clipboardStream,
+		);
+
+		return {state};
+	},
+	cut(context) {
+		const {selection, state} = context;
+
+		if (!selection) {
+			return undefined;
+		}
+
+		writeClipboard(
+			state.value.slice(selection.start, selection.end),
+			context.clipboardStream,
+		);
+
+		return insertText(context, '', 'cut');
+	},
+	paste(context) {
+		const text = readClipboard();
+		const result = insertText(context, text, 'paste');
+
+		return {...result, state: {...result.state, cursorWidth: text.length}};
+	},
+	undo: context => moveThroughHistory(context, 'undo'),
+	redo: context => moveThroughHistory(context, 'redo'),
+	submit: context =>
+		context.canSubmit ? {state: context.state, submit: true} : undefined,
+	newline(context) {
+		const {value, cursorOffset} = context.state;
+		const start = context.selection?.start ?? cursorOffset;
+		const newline = getNewlineText(value, start, context.indentOptions);
+		const result = insertText(context, newline.text, 'newline');
+
+		return {
+			...result,
+			state: {...result.state, cursorOffset: start + newline.cursorOffset},
+		};
+	},
+	indent(context) {
+		const {selection, state, indentOptions} = context;
+
+		// A selection across lines indents them, otherwise indentation is typed like text
+		if (
+			selection &&
+			state.value.slice(selection.start, selection.end).includes('\n')
+		) {
+			return applyLineEdit(
+				context,
+				indentLines(state.value, selection, indentOptions),
+			);
+		}
+
+		const start = selection?.start ?? state.cursorOffset;
+
+		return insertText(
+			context,
+			getIndentText(
+				getColumn(state.value, start, indentOptions.tabWidth),
+				indentOptions,
+			),
+			'insert',
+		);
+	},
+	outdent: context =>
+		applyLineEdit(
+			context,
+			outdentLines(
+				context.state.value,
+				context.selection ?? {
+					start: context.state.cursorOffset,
+					end: context.state.cursorOffset,
+				},
+				context.indentOptions,
+			),
+		),
+	acceptSuggestion(context) {
+		const {selection, suggestion} = context;
+
+		if (!context.showCursor || !suggestion || selection !== undefined) {
+			return undefined;
+		}
+
+		return {
+			...(suggestion.snippet
+				? replaceWithSnippet(
+						context,
+						suggestion.range,
+						suggestion.snippet,
+						'suggestion',
+					)
+				: replaceRange(
+						context,
+						suggestion.range,
+						suggestion.text,
+						'suggestion',
+					)),
+			acceptedSuggestion: suggestion.text,
+		};
+	},
+	nextDecoration(context) {
+		const offset = findDecoration(
+			context.decorations,
+			context.state.cursorOffset,
+			'next',
+		);
+
+		return offset === undefined
+			? undefined
+			: moveCursor(context, offset, false);
+	},
+	previousDecoration(context) {
+		const offset = findDecoration(
+			context.decorations,
+			context.state.cursorOffset,
+			'previous',
+		);
+
+		return offset === undefined
+			? undefined
+			: moveCursor(context, offset, false);
+	},
+	applyQuickFix(context) {
+		// Fixes of later decorations take precedence, like their messages do
+		const decoration = getDecorationsAt(
+			context.decorations,
+			context.state.cursorOffset,
+		)
+			.filter(decoration => decoration.fixes?.length)
+			.at(-1);
+		const fix = decoration?.fixes?.[0];
+
+		return decoration && fix
+			? replaceRange(context, decoration, fix.text, 'command')
+			: undefined;
+	},
+	nextCompletion: context => selectCompletion(context, 1),
+	previousCompletion: context => selectCompletion(context, -1),
+	acceptCompletion(context) {
+		const {completion} = context;
+		const item = completion?.items[completion.selectedIndex];
+
+		if (!completion || !item) {
+			return undefined;
+		}
+
+		const text = item.insertText ?? item.label;
+
+		return {
+			...(item.isSnippet
+				? replaceWithSnippet(
+						context,
+						completion.range,
+						parseSnippet(text),
+						'suggestion',
+					)
+				: replaceRange(context, completion.range, text, 'suggestion')),
+			completionMenu: {selectedIndex: 0, isDismissed: true},
+		};
+	},
+	dismissCompletion(context) {
+		if (!context.completion) {
+			return undefined;
+		}
+
+		return {
+			state: context.state,
+			completionMenu: {selectedIndex: 0, isDismissed: true},
+		};
+	},
+	nextSnippetField: context => moveToSnippetField(context, 1),
+	previousSnippetField: context => moveToSnippetField(context, -1),
+	exitSnippet: context =>
+		context.snippet ? {state: context.state, exitSnippet: true} : undefined,
+	historyPrevious: context => recallEntry(context, -1),
+	historyNext: context => recallEntry(context, 1),
+	find: context => ({
+		state: context.state,
+		find: startFind(context, context.lastFind),
+		completionMenu: {selectedIndex: 0, isDismissed: true},
+	}),
+	historySearch(context) {
+		if (context.historyEntries.length === 0) {
+			return undefined;
+		}
+
+		return {
+			state: context.state,
+			historySearch: startHistorySearch(context),
+			completionMenu: {selectedIndex: 0, isDismissed: true},
+		};
+	},
+} satisfies Record<string, Command>;
+
+/**
+ * Name of a built-in editor command that can be bound to a key.
+ */
+export type EditorCommand = keyof typeof commands;
+
+export function runCommand(
+	command: EditorCommand,
+	context: CommandContext,
+): CommandResult | undefined {
+	return commands[command](context);
+}
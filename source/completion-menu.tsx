@@ -0,0 +1,59 @@
+import React from 'react';
+import {Box, Text} from 'ink';
+import type {Completion} from './completion.js';
+
+/**
+ * Maximum number of items shown at once, the menu scrolls to the selected item.
+ */
+const maxVisibleItems = 8;
+
+type Props = {
+	readonly completion: Completion;
+	/**
+	 * Column to align the menu with, usually where the completed word starts.
+	 */
+	readonly column: number;
+};
+
+/**
+ * Dropdown listing completion items, with the selected one highlighted.
+ */
+export default function CompletionMenu({completion, column}: Props) {
+	const {items, selectedIndex} = completion;
+	const firstVisibleIndex = Math.max(
+		0,
+		Math.min(
+			selectedIndex - maxVisibleItems + 1,
+			items.length - maxVisibleItems,
+		),
+	);
+	const visibleItems = items.slice(
+		firstVisibleIndex,
+		firstVisibleIndex + maxVisibleItems,
+	);
+	const labelWidth = Math.max(...visibleItems.map(item => item.label.length));
+	const kindWidth = Math.max(
+		0,
+		...visibleItems.map(item => item.kind?.length ?? 0),
+	);
+
+	return (
+		<Box flexDirection="column" marginLeft={column}>
+			{visibleItems.map((item, index) => {
+				const isSelected = firstVisibleIndex + index === selectedIndex;
+
+				return (
+					<Text key={`${item.kind ?? ''}:${item.label}`} inverse={isSelected}>
+						{item.label.padEnd(labelWidth)}
+						{kindWidth > 0 && (
+							<Text dimColor={!isSelected}>
+								{' ' + (item.kind ?? '').padEnd(kindWidth)}
+							</Text>
+						)}
+						{item.detail && <Text dimColor>{' ' + item.detail}</Text>}
+					</Text>
+				);
+			})}
+		</Box>
+	);
+}
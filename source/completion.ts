@@ -0,0 +1,89 @@
+import type {Selection} from './selection.js';
+import {getToken} from './suggestion.js';
+
+/**
+ * An item of the completion menu.
+ */
+export type CompletionItem = {
+	/**
+	 * Text shown in the menu, which is matched against the word being typed.
+	 */
+	label: string;
+	/**
+	 * Text that replaces the word being typed. Defaults to `label`.
+	 */
+	insertText?: string;
+	/**
+	 * Whether the inserted text is a snippet with tab stops like `${1:table}`.
+	 */
+	isSnippet?: boolean;
+	/**
+	 * Kind of the item shown next to it, e.g. `'table'`, `'column'` or `'keyword'`.
+	 */
+	kind?: string;
+	/**
+	 * Additional information shown dimmed, e.g. a column type.
+	 */
+	detail?: string;
+};
+
+/**
+ * Open completion menu.
+ */
+export type Completion = {
+	/**
+	 * Items matching the word being typed.
+	 */
+	items: CompletionItem[];
+	selectedIndex: number;
+	/**
+	 * Range of the word being typed, which an accepted item replaces.
+	 */
+	range: Selection;
+};
+
+/**
+ * Whether the menu was dismissed and which item is selected.
+ * It's reset when the value changes.
+ */
+export type CompletionMenuState = {
+	selectedIndex: number;
+	isDismissed: boolean;
+};
+
+export const initialCompletionMenuState: CompletionMenuState = {
+	selectedIndex: 0,
+	isDismissed: false,
+};
+
+/**
+ * Returns the completion menu for the word before the cursor, or `undefined`
+ * when no word is being typed or no items match it.
+ */
+export function getCompletion(
+	items: CompletionItem[],
+	value: string,
+	cursorOffset: number,
+	selectedIndex: number,
+): Completion | undefined {
+	const {text, ...range} = getToken(value, cursorOffset);
+
+	if (!text) {
+		return undefined;
+	}
+
+	const word = text.toLowerCase();
+	const matchingItems = items.filter(item =>
+		item.label.toLowerCase().startsWith(word),
+	);
+
+	if (matchingItems.length === 0) {
+		return undefined;
+	}
+
+	return {
+		items: matchingItems,
+		selectedIndex: Math.min(selectedIndex, matchingItems.length - 1),
+		range,
+	};
+}
@@ -0,0 +1,25 @@
+import React from 'react';
+import {Text} from 'ink';
+import {getDecorationStyle, type Decoration} from './decorations.js';
+import type {ResolvedTheme} from './theme.js';
+
+type Props = {
+	readonly decoration: Decoration;
+	readonly theme: ResolvedTheme;
+};
+
+/**
+ * Message of a decoration in its color, with its source and the title of its first fix.
+ */
+export default function DecorationHint({decoration, theme}: Props) {
+	const {color} = getDecorationStyle(decoration, theme.decorations);
+	const fix = decoration.fixes?.[0];
+
+	return (
+		<Text color={color} dimColor={!color}>
+			{decoration.source && `${decoration.source}: `}
+			{decoration.message}
+			{fix && <Text dimColor> ({fix.title})</Text>}
+		</Text>
+	);
+}
@@ -0,0 +1,117 @@
+import type {TextProps} from 'ink';
+
+/**
+ * Decoration style preset names.
+ */
+export type DecorationStyle = 'error' | 'warning' | 'info' | 'highlight';
+
+/**
+ * Edit that resolves the problem a decoration marks, by replacing its range with `text`.
+ */
+export type QuickFix = {
+	/**
+	 * Description of the fix, shown with the message of the decoration.
+	 */
+	title: string;
+	text: string;
+};
+
+/**
+ * A decoration that highlights a range of text with custom styles.
+ */
+export type Decoration = {
+	/**
+	 * Start character index (0-indexed, inclusive).
+	 */
+	start: number;
+	/**
+	 * End character index (exclusive).
+	 */
+	end: number;
+	/**
+	 * Preset style to apply, or custom Ink `Text` props.
+	 */
+	style: DecorationStyle | Partial<TextProps>;
+	/**
+	 * Message shown under the input when the cursor is on the decoration.
+	 */
+	message?: string;
+	/**
+	 * Identifier of the decoration, e.g. a diagnostic code.
+	 */
+	id?: string;
+	/**
+	 * Name of what produced the decoration, e.g. a linter, shown before the message.
+	 */
+	source?: string;
+	/**
+	 * Fixes to offer, the first one is applied with `Meta+Q` when the cursor is on the decoration.
+	 */
+	fixes?: QuickFix[];
+};
+
+/**
+ * Returns the style of a decoration, looking up presets in `presetStyles`.
+ */
+export function getDecorationStyle(
+	decoration: Decoration,
+	presetStyles: Record<DecorationStyle, Partial<TextProps>>,
+): Partial<TextProps> {
+	return typeof decoration.style === 'string'
+		? presetStyles[decoration.style]
+		: decoration.style;
+}
+
+/**
+ * Merges multiple decoration styles into a single style object.
+ * Later decorations in the array take precedence for conflicting properties.
+ */
+export function mergeDecorationStyles(
+	decorations: Decoration[],
+	presetStyles: Record<DecorationStyle, Partial<TextProps>>,
+): Partial<TextProps> | undefined {
+	if (decorations.length === 0) return undefined;
+
+	const merged: Partial<TextProps> = {};
+	for (const dec of decorations) {
+		Object.assign(merged, getDecorationStyle(dec, presetStyles));
+	}
+
+	return merged;
+}
+
+/**
+ * Returns decorations under the cursor, including ones that end right
+ * before it, so the message of a word is shown while typing it.
+ */
+export function getDecorationsAt(
+	decorations: Decoration[],
+	cursorOffset: number,
+): Decoration[] {
+	return decorations.filter(
+		decoration =>
+			decoration.start <= cursorOffset && cursorOffset <= decoration.end,
+	);
+}
+
+/**
+ * Returns the start of the closest decoration after or before the cursor,
+ * or `undefined` when there is none in that direction.
+ */
+export function findDecoration(
+	decorations: Decoration[],
+	cursorOffset: number,
+	direction: 'next' | 'previous',
+): number | undefined {
+	const starts = decorations
+		.map(decoration => decoration.start)
+		.filter(start =>
+			direction === 'next' ? start > cursorOffset : start < cursorOffset,
+		);
+
+	if (starts.length === 0) {
+		return undefined;
+	}
+
+	return direction === 'next' ? Math.min(...starts) : Math.max(...starts);
+}
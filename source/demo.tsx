@@ -46,27 +46,27 @@ function Demo() {
 		const decs: Decoration[] = [];
 
 		// Check for typos/errors
-		for (const {pattern} of sqlErrors) {
-			const regex = new RegExp(pattern.source, pattern.flags);
-			let match;
-			while ((match = regex.exec(value)) !== null) {
+		for (const {pattern, replacement} of sqlErrors) {
+			for (const match of value.matchAll(pattern)) {
 				decs.push({
 					start: match.index,
 					end: match.index + match[0].length,
 					style: 'error',
+					message: `Typo: did you mean "${replacement}"?`,
+					source: 'sql',
 				});
 			}
 		}
 
 		// Check for warnings
-		for (const {pattern} of sqlWarnings) {
-			const regex = new RegExp(pattern.source, pattern.flags);
-			let match;
-			while ((match = regex.exec(value)) !== null) {
+		for (const {pattern, message} of sqlWarnings) {
+			for (const match of value.matchAll(pattern)) {
 				decs.push({
 					start: match.index,
 					end: match.index + match[0].length,
 					style: 'warning',
+					message,
+					source: 'sql',
 				});
 			}
 		}
@@ -81,28 +81,6 @@ function Demo() {
 		}
 	};
 
-	// Get error/warning messages for display
-	const errorMessages = useMemo(() => {
-		const messages: Array<{type: 'error' | 'warning'; text: string}> = [];
-
-		for (const {pattern, replacement} of sqlErrors) {
-			if (pattern.test(value)) {
-				messages.push({
-					type: 'error',
-					text: `Typo: did you mean "${replacement}"?`,
-				});
-			}
-		}
-
-		for (const {pattern, message} of sqlWarnings) {
-			if (pattern.test(value)) {
-				messages.push({type: 'warning', text: message});
-			}
-		}
-
-		return messages;
-	}, [value]);
-
 	return (
 		<Box flexDirection="column" padding={1}>
 			<Text bold color="cyan">
@@ -116,7 +94,10 @@ function Demo() {
 				Try typos like &quot;selct&quot; (error) or &quot;select *&quot;
 				(warning).
 			</Text>
-			<Text dimColor>Press Enter to submit. Ctrl+C to exit.</Text>
+			<Text dimColor>
+				Meta+N and Meta+P jump between problems. Press Enter to submit. Ctrl+C
+				to exit.
+			</Text>
 			<Box marginTop={1}>
 				<Text color="green">{`> `}</Text>
 				<TextInput
@@ -132,14 +113,14 @@ function Demo() {
 					}}
 				/>
 			</Box>
-			{errorMessages.length > 0 && (
+			{decorations.length > 0 && (
 				<Box flexDirection="column" marginTop={1}>
-					{errorMessages.map(msg => (
+					{decorations.map(dec => (
 						<Text
-							key={`${msg.type}-${msg.text}`}
-							color={msg.type === 'error' ? 'red' : 'yellow'}
+							key={`${dec.start}-${dec.message}`}
+							color={dec.style === 'error' ? 'red' : 'yellow'}
 						>
-							{msg.type === 'error' ? '✗' : '⚠'} {msg.text}
+							{dec.style === 'error' ? '✗' : '⚠'} {dec.message}
 						</Text>
 					))}
 				</Box>
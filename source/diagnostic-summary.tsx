@@ -0,0 +1,31 @@
+import React, {Fragment} from 'react';
+import {Text} from 'ink';
+import {summarizeDiagnostics, type Diagnostic} from './diagnostics.js';
+import type {ResolvedTheme} from './theme.js';
+
+type Props = {
+	readonly diagnostics: Diagnostic[];
+	readonly theme: ResolvedTheme;
+};
+
+/**
+ * Number of diagnostics of each severity, in the color of their decorations.
+ */
+export default function DiagnosticSummary({diagnostics, theme}: Props) {
+	return (
+		<Text>
+			{summarizeDiagnostics(diagnostics).map(({severity, text}, index) => {
+				const {color} = theme.decorations[severity];
+
+				return (
+					<Fragment key={severity}>
+						{index > 0 && ', '}
+						<Text color={color} dimColor={!color}>
+							{text}
+						</Text>
+					</Fragment>
+				);
+			})}
+		</Text>
+	);
+}
@@ -0,0 +1,61 @@
+import type {Decoration, QuickFix} from './decorations.js';
+import type {Selection} from './selection.js';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Problem found in the value by `getDiagnostics`.
+ */
+export type Diagnostic = Selection & {
+	severity: DiagnosticSeverity;
+	message: string;
+	/**
+	 * Identifier of the diagnostic, e.g. a rule name.
+	 */
+	id?: string;
+	/**
+	 * Name of what produced the diagnostic, e.g. a linter, shown before the message.
+	 */
+	source?: string;
+	/**
+	 * Fixes to offer for the diagnostic, the first one is applied with `Meta+Q`.
+	 */
+	fixes?: QuickFix[];
+};
+
+const severities: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+const severityNames: Record<DiagnosticSeverity, [string, string]> = {
+	error: ['error', 'errors'],
+	warning: ['warning', 'warnings'],
+	info: ['info', 'infos'],
+};
+
+/**
+ * Returns the decoration that draws a diagnostic, in the preset style of its severity.
+ */
+export function getDiagnosticDecoration({
+	severity,
+	...diagnostic
+}: Diagnostic): Decoration {
+	return {...diagnostic, style: severity};
+}
+
+/**
+ * Returns the number of diagnostics of each severity that occurs, most severe first,
+ * e.g. `[{severity: 'error', text: '2 errors'}]`.
+ */
+export function summarizeDiagnostics(
+	diagnostics: Diagnostic[],
+): Array<{severity: DiagnosticSeverity; text: string}> {
+	return severities.flatMap(severity => {
+		const count = diagnostics.filter(
+			diagnostic => diagnostic.severity === severity,
+		).length;
+		const [singular, plural] = severityNames[severity];
+
+		return count === 0
+			? []
+			: [{severity, text: `${count} ${count === 1 ? singular : plural}`}];
+	});
+}
@@ -0,0 +1,682 @@
+import {mapAutoClosed} from './brackets.js';
+import {
+	applyEdits,
+	diffValues,
+	getChangeCause,
+	mapCursorOffset,
+	type TextChange,
+	type TextEdit,
+} from './changes.js';
+import {
+	insertText,
+	replaceRange,
+	runCommand,
+	typeText,
+	type CommandContext,
+	type CommandResult,
+	type EditorCommand,
+	type EditorState,
+	type LastCommand,
+} from './commands.js';
+import {
+	initialCompletionMenuState,
+	type Completion,
+	type CompletionMenuState,
+} from './completion.js';
+import type {Decoration} from './decorations.js';
+import {handleFindKey, type FindState} from './find.js';
+import {snapToGrapheme, splitGraphemes} from './graphemes.js';
+import type {TokenRange} from './highlight.js';
+import {
+	createKeymap,
+	getDefaultKeymap,
+	type Keymap,
+	type SubmitKey,
+} from './keymap.js';
+import type {KillRing} from './kill-ring.js';
+import {getSelection, type Selection} from './selection.js';
+import {mirrorSnippetEdit, type SnippetSession} from './snippets.js';
+import {
+	handleHistorySearchKey,
+	type HistoryPosition,
+	type HistorySearch,
+} from './submission-history.js';
+import type {ResolvedSuggestion} from './suggestion.js';
+import {
+	breakCoalescing,
+	emptyHistory,
+	recordEdit,
+	type UndoHistory,
+} from './undo.js';
+import {
+	handleVimKey,
+	initialVimState,
+	type VimMode,
+	type VimState,
+} from './vim.js';
+
+/**
+ * Availability of undo and redo steps.
+ */
+export type UndoState = {
+	canUndo: boolean;
+	canRedo: boolean;
+};
+
+/**
+ * Everything that changes while editing, apart from what the host passes in as options.
+ */
+export type CodeEditorState = EditorState & {
+	history: UndoHistory;
+	killRing: KillRing;
+	lastCommand?: LastCommand;
+	vim: VimState;
+	/**
+	 * Position in the submission history, when an entry is shown.
+	 */
+	historyPosition?: HistoryPosition;
+	/**
+	 * Reverse search through the submission history, while it's open.
+	 */
+	historySearch?: HistorySearch;
+	/**
+	 * Find bar, while it's open.
+	 */
+	find?: FindState;
+	/**
+	 * Previous state of the find bar, so reopening it keeps the query and options.
+	 */
+	lastFind?: FindState;
+	/**
+	 * Offsets of closing characters that were inserted automatically.
+	 */
+	autoClosed: number[];
+	completionMenu: CompletionMenuState;
+	/**
+	 * Inserted snippet whose fields are being filled in.
+	 */
+	snippet?: SnippetSession;
+};
+
+/**
+ * Options of the editor that don't change while editing. They mirror the props
+ * of `TextInput` and have the same defaults.
+ */
+export type EditorOptions = {
+	showCursor?: boolean;
+	multiline?: boolean;
+	submitKey?: SubmitKey;
+	keymap?: Keymap;
+	vimMode?: boolean;
+	tabWidth?: number;
+	insertSpaces?: boolean;
+	autoIndent?: boolean;
+	indentWithTab?: boolean;
+	autoClosePairs?: boolean;
+	language?: string;
+	decorations?: Decoration[];
+	/**
+	 * Submitted values to recall, oldest first.
+	 */
+	historyEntries?: readonly string[];
+	/**
+	 * Syntax highlighting tokens of the value.
+	 */
+	tokens?: TokenRange[];
+	/**
+	 * Suggestion for the current value, which `Right` accepts.
+	 */
+	suggestion?: ResolvedSuggestion;
+	/**
+	 * Completion menu, when it's open.
+	 */
+	completion?: Completion;
+	/**
+	 * Stream to send copied text to with OSC 52, see the `systemClipboard` prop.
+	 */
+	clipboardStream?: NodeJS.WriteStream;
+	/**
+	 * Whether the value can be submitted, `false` while `preventSubmitOnError` blocks it.
+	 */
+	canSubmit?: boolean;
+};
+
+/**
+ * Something to do with the editor: handle a keypress, run a command, edit
+ * the value or move the cursor like the ref handle does, or take over a value
+ * that was changed from outside.
+ */
+export type EditorAction =
+	| {
+			type: 'keypress';
+			input: string;
+			/**
+			 * Chord of the keypress in keymap form, or `undefined` when it inserts text.
+			 */
+			chord?: string;
+	  }
+	| {type: 'command'; command: EditorCommand}
+	| {type: 'insertText'; text: string}
+	| {type: 'replaceRange'; range: Selection; text: string}
+	| {type: 'setCursor'; cursorOffset: number; selectionAnchor?: number}
+	| SetValueAction;
+
+/**
+ * Takes over a value changed from outside, optionally with the cursor to place in it.
+ */
+type SetValueAction = {
+	type: 'setValue';
+	value: string;
+	cursorOffset?: number;
+	selectionAnchor?: number;
+};
+
+/**
+ * Change that an action made, for the host to be notified of.
+ * Events come in the order the `on*` props of `TextInput` are called.
+ */
+export type EditorEvent =
+	| {type: 'vimModeChange'; mode: VimMode}
+	| {type: 'cursorChange'; cursorOffset: number}
+	| ({type: 'undoStateChange'} & UndoState)
+	| {type: 'suggestionAccept'; text: string}
+	| {type: 'change'; value: string; change: TextChange}
+	| {type: 'submit'; value: string};
+
+export type EditorUpdate = {
+	state: CodeEditorState;
+	events: EditorEvent[];
+};
+
+/**
+ * Returns the state of an editor with `value`, and the cursor at its end unless `cursorOffset` is passed.
+ */
+export function createEditorState(
+	value = '',
+	cursorOffset = value.length,
+): CodeEditorState {
+	return {
+		value,
+		cursorOffset: snapToGrapheme(value, cursorOffset),
+		cursorWidth: 0,
+		history: emptyHistory,
+		killRing: [],
+		vim: initialVimState,
+		autoClosed: [],
+		completionMenu: initialCompletionMenuState,
+	};
+}
+
+function getContext(
+	state: CodeEditorState,
+	options: EditorOptions,
+): CommandContext {
+	return {
+		state: {
+			value: state.value,
+			cursorOffset: state.cursorOffset,
+			cursorWidth: state.cursorWidth,
+			preferredColumn: state.preferredColumn,
+			selectionAnchor: state.selectionAnchor,
+		},
+		selection: getSelection(state.selectionAnchor, state.cursorOffset),
+		history: state.history,
+		killRing: state.killRing,
+		lastCommand: state.lastCommand,
+		showCursor: options.showCursor ?? true,
+		suggestion: options.suggestion,
+		completion: options.completion,
+		decorations: options.decorations ?? [],
+		historyEntries: options.historyEntries ?? [],
+		historyPosition: state.historyPosition,
+		lastFind: state.lastFind,
+		autoClosePairs: options.autoClosePairs ?? false,
+		autoClosed: state.autoClosed,
+		tokens: options.tokens ?? [],
+		indentOptions: {
+			tabWidth: options.tabWidth ?? 4,
+			insertSpaces: options.insertSpaces ?? true,
+			autoIndent: options.autoIndent ?? true,
+			language: options.language,
+		},
+		multiline: options.multiline ?? false,
+		clipboardStream: options.clipboardStream,
+		canSubmit: options.canSubmit ?? true,
+		snippet: state.snippet,
+	};
+}
+
+/**
+ * Returns the edits that `result` made, or one that replaces the whole value
+ * when the command didn't describe them.
+ */
+function getEdits(state: CodeEditorState, result: CommandResult): TextEdit[] {
+	return (
+		result.edits ?? [
+			{
+				range: {start: 0, end: state.value.length},
+				text: result.state.value,
+			},
+		]
+	);
+}
+
+/**
+ * Returns the undo history after `result`, which records an edit of the value
+ * and otherwise starts a new undo step for the next edit.
+ */
+function getUndoHistory(
+	state: CodeEditorState,
+	result: CommandResult,
+	cursorOffset: number,
+): UndoHistory {
+	if (result.history) {
+		return result.history;
+	}
+
+	return result.state.value === state.value
+		? breakCoalescing(state.history)
+		: recordEdit(
+				state.history,
+				{
+					value: state.value,
+					cursorOffset: state.cursorOffset,
+					edits: getEdits(state, result),
+				},
+				{value: result.state.value, cursorOffset},
+				result.editKind ?? 'insert',
+			);
+}
+
+/**
+ * Returns `result` with edits of a snippet field copied to its mirrors, and the
+ * snippet session after it. Editing outside of the current field, moving through
+ * the undo or submission history, and submitting end the session.
+ */
+function applySnippetEdit(
+	state: CodeEditorState,
+	result: CommandResult,
+): {result: CommandResult; snippet?: SnippetSession} {
+	if (result.snippet ?? result.exitSnippet) {
+		return {result, snippet: result.snippet};
+	}
+
+	const isHistoryMove =
+		result.history !== undefined || result.historyPosition !== undefined;
+
+	if (!state.snippet || result.submit === true || isHistoryMove) {
+		return {result};
+	}
+
+	if (result.state.value === state.value) {
+		return {result, snippet: state.snippet};
+	}
+
+	const mirrored = mirrorSnippetEdit(
+		state.snippet,
+		result.state,
+		result.edits ?? [],
+	);
+
+	return mirrored
+		? {
+				result: {...result, state: mirrored.state, edits: mirrored.edits},
+				snippet: mirrored.session,
+			}
+		: {result};
+}
+
+function applyCommandResult(
+	state: CodeEditorState,
+	commandResult: CommandResult,
+): EditorUpdate {
+	const {result, snippet} = applySnippetEdit(state, commandResult);
+	const {state: nextState} = result;
+	const events: EditorEvent[] = [];
+	const isValueChanged = nextState.value !== state.value;
+	const cursorOffset = Math.max(
+		0,
+		Math.min(nextState.cursorOffset, nextState.value.length),
+	);
+
+	if (cursorOffset !== state.cursorOffset) {
+		events.push({type: 'cursorChange', cursorOffset});
+	}
+
+	const history = getUndoHistory(state, result, cursorOffset);
+
+	if (
+		state.history.past.length > 0 !== history.past.length > 0 ||
+		state.history.future.length > 0 !== history.future.length > 0
+	) {
+		events.push({
+			type: 'undoStateChange',
+			canUndo: history.past.length > 0,
+			canRedo: history.future.length > 0,
+		});
+	}
+
+	if (result.acceptedSuggestion !== undefined) {
+		events.push({type: 'suggestionAccept', text: result.acceptedSuggestion});
+	}
+
+	if (isValueChanged) {
+		const cause = getChangeCause(result.editKind ?? 'insert');
+		let {value} = state;
+
+		// Each edit is reported with the value it produced, so edits in several
+		// places, like replacing every find match, keep the text between them
+		for (const edit of getEdits(state, result)) {
+			value = applyEdits(value, [edit]);
+			events.push({type: 'change', value, change: {...edit, cause}});
+		}
+	}
+
+	if (result.submit) {
+		events.push({type: 'submit', value: state.value});
+	}
+
+	return {
+		state: {
+			...state,
+			value: nextState.value,
+			cursorOffset,
+			cursorWidth: nextState.cursorWidth,
+			preferredColumn: nextState.preferredColumn,
+			selectionAnchor: nextState.selectionAnchor,
+			history,
+			killRing: result.killRing ?? state.killRing,
+			lastCommand: result.lastCommand,
+			// Typing reopens the completion menu, moving the cursor closes it
+			completionMenu:
+				result.completionMenu ??
+				(isValueChanged
+					? initialCompletionMenuState
+					: cursorOffset === state.cursorOffset
+						? state.completionMenu
+						: {selectedIndex: 0, isDismissed: true}),
+			autoClosed:
+				result.autoClosed ??
+				mapAutoClosed(
+					state.autoClosed,
+					state.value,
+					nextState.value,
+					cursorOffset,
+				),
+			// Moving through the history ends once the value is edited or submitted
+			historyPosition:
+				result.historyPosition ??
+				(isValueChanged || result.submit ? undefined : state.historyPosition),
+			historySearch: result.historySearch ?? state.historySearch,
+			find: result.find ?? state.find,
+			lastFind: result.find ?? state.lastFind,
+			snippet,
+		},
+		events,
+	};
+}
+
+/**
+ * Runs the command bound to `chord`, or the first of its commands that applies.
+ */
+function runBinding(
+	context: CommandContext,
+	chord: string,
+	options: EditorOptions,
+): CommandResult | undefined {
+	const keymap = createKeymap(
+		getDefaultKeymap({
+			multiline: options.multiline ?? false,
+			submitKey: options.submitKey ?? 'meta+enter',
+			indentWithTab: options.indentWithTab ?? false,
+		}),
+		options.keymap,
+	);
+	const binding = keymap.get(chord);
+	const {state, selection} = context;
+
+	if (typeof binding === 'function') {
+		const change = binding({
+			value: state.value,
+			cursorOffset: state.cursorOffset,
+			selection,
+		});
+
+		if (!change) {
+			return undefined;
+		}
+
+		const value = change.value ?? state.value;
+		const cursorOffset = change.cursorOffset ?? state.cursorOffset;
+
+		return {
+			state: {value, cursorOffset, cursorWidth: 0},
+			editKind: 'command',
+			// The handler only returns the new value, like a change from outside
+			edits: [diffValues(state.value, value, cursorOffset)],
+		};
+	}
+
+	if (!binding) {
+		return undefined;
+	}
+
+	for (const command of Array.isArray(binding) ? binding : [binding]) {
+		const result = runCommand(command, context);
+
+		if (result) {
+			return result;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Handles a keypress. The find bar and the history search get it first, then
+ * Vim emulation, and otherwise it inserts text or runs its key binding.
+ */
+function handleKeypress(
+	state: CodeEditorState,
+	input: string,
+	chord: string | undefined,
+	options: EditorOptions,
+): EditorUpdate {
+	let nextState = state;
+	const events: EditorEvent[] = [];
+
+	const apply = (result: CommandResult | undefined) => {
+		if (result) {
+			const update = applyCommandResult(nextState, result);
+			nextState = update.state;
+			events.push(...update.events);
+		}
+	};
+
+	if (nextState.find) {
+		const findStep = handleFindKey(
+			nextState.find,
+			getContext(nextState, options),
+			input,
+			chord,
+		);
+
+		nextState = {
+			...nextState,
+			find: findStep.find,
+			lastFind: findStep.find ?? nextState.find,
+		};
+		apply(findStep.result);
+
+		if (findStep.isHandled) {
+			return {state: nextState, events};
+		}
+	}
+
+	if (nextState.historySearch) {
+		const searchStep = handleHistorySearchKey(
+			nextState.historySearch,
+			getContext(nextState, options),
+			input,
+			chord,
+		);
+
+		nextState = {...nextState, historySearch: searchStep.search};
+		apply(searchStep.result);
+
+		if (searchStep.isHandled) {
+			return {state: nextState, events};
+		}
+	}
+
+	const context = getContext(nextState, options);
+	// `Escape` in insert mode closes the completion menu or stops moving between
+	// snippet fields first, and only switches to normal mode when neither applies
+	const escapeResult =
+		options.vimMode && nextState.vim.mode === 'insert' && chord === 'escape'
+			? runBinding(context, chord, options)
+			: undefined;
+	const vimStep =
+		options.vimMode && !escapeResult
+			? handleVimKey(nextState.vim, context, input, chord)
+			: undefined;
+
+	if (escapeResult) {
+		apply(escapeResult);
+	} else if (vimStep) {
+		if (vimStep.vim.mode !== nextState.vim.mode) {
+			events.push({type: 'vimModeChange', mode: vimStep.vim.mode});
+		}
+
+		nextState = {...nextState, vim: vimStep.vim};
+		apply(vimStep.result);
+	} else if (chord === undefined) {
+		if (input.length > 0) {
+			// Pasted text may contain carriage returns, normalize them to line breaks
+			const text = options.multiline ? input.replaceAll(/\r\n?/g, '\n') : input;
+
+			// Typing an emoji inserts several code units, but only one grapheme
+			const isPaste = splitGraphemes(text).length > 1;
+			const result = typeText(context, text, isPaste ? 'paste' : 'insert');
+
+			if (isPaste) {
+				result.state.cursorWidth = text.length;
+			}
+
+			apply(result);
+		}
+	} else {
+		apply(runBinding(context, chord, options));
+	}
+
+	return {state: nextState, events};
+}
+
+/**
+ * Takes over a value that was changed from outside. It isn't an edit, so it's
+ * neither recorded in the undo history nor reported back. The cursor and
+ * selection move through the change, so they stay on the same text,
+ * unless the new cursor is passed along with the value.
+ */
+function setValue(
+	state: CodeEditorState,
+	{value, cursorOffset, selectionAnchor}: SetValueAction,
+): CodeEditorState {
+	if (value === state.value) {
+		return state;
+	}
+
+	const change = diffValues(state.value, value);
+	const nextCursorOffset = snapToGrapheme(
+		value,
+		cursorOffset ?? mapCursorOffset(state.cursorOffset, change),
+	);
+	const nextAnchor =
+		cursorOffset === undefined
+			? state.selectionAnchor === undefined
+				? undefined
+				: mapCursorOffset(state.selectionAnchor, change)
+			: selectionAnchor;
+
+	return {
+		...state,
+		value,
+		cursorOffset: nextCursorOffset,
+		cursorWidth: 0,
+		preferredColumn: undefined,
+		selectionAnchor:
+			nextAnchor === undefined || nextAnchor === nextCursorOffset
+				? undefined
+				: snapToGrapheme(value, nextAnchor),
+		autoClosed: mapAutoClosed(
+			state.autoClosed,
+			state.value,
+			value,
+			nextCursorOffset,
+		),
+		snippet: undefined,
+	};
+}
+
+/**
+ * Returns the state after `action` and the changes it made, so the host
+ * decides what to do with the events. The only side effects are those of
+ * the clipboard commands: `copy` and `cut` write to the clipboard shared by
+ * all editors in the process (and to `clipboardStream`), and `paste` reads
+ * from it.
+ */
+export function updateEditor(
+	state: CodeEditorState,
+	action: EditorAction,
+	options: EditorOptions = {},
+): EditorUpdate {
+	switch (action.type) {
+		case 'keypress': {
+			return handleKeypress(state, action.input, action.chord, options);
+		}
+
+		case 'command': {
+			const result = runCommand(action.command, getContext(state, options));
+			return result ? applyCommandResult(state, result) : {state, events: []};
+		}
+
+		case 'insertText': {
+			return applyCommandResult(
+				state,
+				insertText(getContext(state, options), action.text, 'command'),
+			);
+		}
+
+		case 'replaceRange': {
+			return applyCommandResult(
+				state,
+				replaceRange(
+					getContext(state, options),
+					action.range,
+					action.text,
+					'command',
+				),
+			);
+		}
+
+		case 'setCursor': {
+			const {value} = state;
+
+			return applyCommandResult(state, {
+				state: {
+					value,
+					cursorOffset: snapToGrapheme(value, action.cursorOffset),
+					cursorWidth: 0,
+					selectionAnchor:
+						action.selectionAnchor === undefined
+							? undefined
+							: snapToGrapheme(value, action.selectionAnchor),
+				},
+			});
+		}
+
+		case 'setValue': {
+			return {state: setValue(state, action), events: []};
+		}
+	}
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import {Box, Text} from 'ink';
+import type {FindState} from './find.js';
+
+type Props = {
+	readonly find: FindState;
+	readonly matchCount: number;
+	/**
+	 * Index of the current match, `undefined` when nothing matches.
+	 */
+	readonly currentIndex?: number;
+	/**
+	 * Reason the query can't be searched for, e.g. an invalid regex.
+	 */
+	readonly error?: string;
+};
+
+function Option({
+	label,
+	isEnabled,
+}: {
+	readonly label: string;
+	readonly isEnabled: boolean;
+}) {
+	return isEnabled ? (
+		<Text inverse>{label}</Text>
+	) : (
+		<Text dimColor>{label}</Text>
+	);
+}
+
+/**
+ * Fields of the find bar with the search options and the number of matches.
+ * The focused field ends with a cursor.
+ */
+export default function FindBar({
+	find,
+	matchCount,
+	currentIndex,
+	error,
+}: Props) {
+	const status =
+		error ??
+		(currentIndex === undefined
+			? find.query && 'No results'
+			: `${currentIndex + 1} of ${matchCount}`);
+
+	return (
+		<Box flexDirection="column">
+			<Text>
+				<Text dimColor>Find: </Text>
+				{find.query}
+				{find.field === 'query' && <Text inverse> </Text>}{' '}
+				<Option label="Aa" isEnabled={find.isCaseSensitive} />{' '}
+				<Option label="W" isEnabled={find.isWholeWord} />{' '}
+				<Option label=".*" isEnabled={find.isRegex} />
+				{status && <Text dimColor> {status}</Text>}
+			</Text>
+			{find.isReplaceVisible && (
+				<Text>
+					<Text dimColor>Replace: </Text>
+					{find.replacement}
+					{find.field === 'replacement' && <Text inverse> </Text>}
+				</Text>
+			)}
+		</Box>
+	);
+}
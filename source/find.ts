@@ -0,0 +1,352 @@
+import {applyEdits} from './changes.js';
+import type {CommandContext, CommandResult} from './commands.js';
+import {getPreviousGraphemeOffset} from './graphemes.js';
+import type {Selection} from './selection.js';
+
+/**
+ * State of the find bar opened with `Ctrl+F`.
+ */
+export type FindState = {
+	query: string;
+	replacement: string;
+	/**
+	 * Field that typing goes to. The replace field is shown once it was focused with `Tab`.
+	 */
+	field: 'query' | 'replacement';
+	isReplaceVisible: boolean;
+	isCaseSensitive: boolean;
+	isWholeWord: boolean;
+	isRegex: boolean;
+	/**
+	 * Offset to search from. The current match is the first one that starts
+	 * there or later, or the first match when there is none after it.
+	 */
+	offset: number;
+};
+
+/**
+ * Text that matches the query, with the capture groups of regex matches.
+ */
+export type FindMatch = Selection & {captures: RegExpExecArray};
+
+const wordCharacter = String.raw`[\p{L}\p{M}\p{N}_$]`;
+
+function escapeRegex(text: string): string {
+	return text.replaceAll(/[|\\{}()[\]^$+*?.]/g, String.raw`\$&`);
+}
+
+/**
+ * Returns the matches of the query in `value`, or an error when the query is an invalid regex.
+ * Empty matches are skipped, since there is nothing to highlight or replace.
+ */
+export function findMatches(
+	value: string,
+	{query, isCaseSensitive, isWholeWord, isRegex}: FindState,
+): {matches: FindMatch[]; error?: string} {
+	if (query === '') {
+		return {matches: []};
+	}
+
+	const pattern = isRegex ? query : escapeRegex(query);
+	let regex: RegExp;
+
+	try {
+		regex = new RegExp(
+			isWholeWord
+				? `(?<!${wordCharacter})(?:${pattern})(?!${wordCharacter})`
+				: pattern,
+			isCaseSensitive ? 'gu' : 'giu',
+		);
+	} catch {
+		return {matches: [], error: 'Invalid regular expression'};
+	}
+
+	const matches: FindMatch[] = [];
+
+	for (const captures of value.matchAll(regex)) {
+		if (captures[0] !== '') {
+			matches.push({
+				start: captures.index,
+				end: captures.index + captures[0].length,
+				captures,
+			});
+		}
+	}
+
+	return {matches};
+}
+
+/**
+ * Returns the index of the current match, see `FindState.offset`.
+ */
+export function getCurrentMatchIndex(
+	matches: FindMatch[],
+	offset: number,
+): number | undefined {
+	if (matches.length === 0) {
+		return undefined;
+	}
+
+	const index = matches.findIndex(match => match.start >= offset);
+	return index === -1 ? 0 : index;
+}
+
+/**
+ * Expands `$&`, `$1` and `$<name>` in a regex replacement, like `String#replace()` does.
+ */
+function expandReplacement(
+	replacement: string,
+	captures: RegExpExecArray,
+): string {
+	return replacement.replaceAll(
+		/\$(\$|&|\d{1,2}|<[^>]*>)/g,
+		(text, token: string) => {
+			if (token === '$') {
+				return '$';
+			}
+
+			if (token === '&') {
+				return captures[0];
+			}
+
+			if (token.startsWith('<')) {
+				return captures.groups?.[token.slice(1, -1)] ?? text;
+			}
+
+			const index = Number(token);
+			return index > 0 && index < captures.length
+				? (captures[index] ?? '')
+				: text;
+		},
+	);
+}
+
+function getReplacement(find: FindState, match: FindMatch): string {
+	return find.isRegex
+		? expandReplacement(find.replacement, match.captures)
+		: find.replacement;
+}
+
+/**
+ * Opens the find bar. The options of the previous search are kept, and
+ * selected text on a single line becomes the query.
+ */
+export function startFind(
+	context: CommandContext,
+	previous?: FindState,
+): FindState {
+	const {selection, state} = context;
+	const selectedText =
+		selection && state.value.slice(selection.start, selection.end);
+
+	return {
+		query: previous?.query ?? '',
+		replacement: previous?.replacement ?? '',
+		isReplaceVisible: false,
+		isCaseSensitive: false,
+		isWholeWord: false,
+		isRegex: false,
+		...previous,
+		...(selectedText && !selectedText.includes('\n')
+			? {query: selectedText, isRegex: false}
+			: {}),
+		field: 'query',
+		offset: selection?.start ?? state.cursorOffset,
+	};
+}
+
+/**
+ * Moves the cursor to the current match.
+ */
+function showCurrentMatch(
+	find: FindState,
+	context: CommandContext,
+): {find: FindState; result?: CommandResult; isHandled: boolean} {
+	const {value} = context.state;
+	const {matches} = findMatches(value, find);
+	const index = getCurrentMatchIndex(matches, find.offset);
+
+	return {
+		find,
+		result:
+			index === undefined
+				? undefined
+				: {
+						state: {value, cursorOffset: matches[index]!.start, cursorWidth: 0},
+					},
+		isHandled: true,
+	};
+}
+
+function moveToMatch(
+	find: FindState,
+	context: CommandContext,
+	direction: 1 | -1,
+): {find: FindState; result?: CommandResult; isHandled: boolean} {
+	const {matches} = findMatches(context.state.value, find);
+	const index = getCurrentMatchIndex(matches, find.offset);
+
+	if (index === undefined) {
+		return {find, isHandled: true};
+	}
+
+	const nextIndex = (index + direction + matches.length) % matches.length;
+
+	return showCurrentMatch(
+		{...find, offset: matches[nextIndex]!.start},
+		context,
+	);
+}
+
+/**
+ * Replaces the current match and moves to the next one, or every match at once.
+ * Either way the replacement is a single undo step.
+ */
+function replace(
+	find: FindState,
+	context: CommandContext,
+	scope: 'current' | 'all',
+): {find: FindState; result?: CommandResult; isHandled: boolean} {
+	const {value} = context.state;
+	const {matches} = findMatches(value, find);
+	const index = getCurrentMatchIndex(matches, find.offset);
+
+	if (index === undefined) {
+		return {find, isHandled: true};
+	}
+
+	const replacedMatches = scope === 'all' ? matches : [matches[index]!];
+	// Replacing from the last match keeps the offsets of the others valid
+	const edits = replacedMatches
+		.map(match => ({
+			range: {start: match.start, end: match.end},
+			text: getReplacement(find, match),
+		}))
+		.reverse();
+	const nextValue = applyEdits(value, edits);
+
+	// Searching goes on after the replaced text, so it isn't matched again
+	const offset = replacedMatches.at(-1)!.end + nextValue.length - value.length;
+	const next = showCurrentMatch(
+		{...find, offset},
+		{...context, state: {...context.state, value: nextValue}},
+	);
+
+	return {
+		...next,
+		result: {
+			state: {
+				value: nextValue,
+				cursorOffset:
+					scope === 'current'
+						? (next.result?.state.cursorOffset ?? offset)
+						: offset,
+				cursorWidth: 0,
+			},
+			editKind: 'command',
+			edits,
+		},
+	};
+}
+
+/**
+ * Handles a keypress while the find bar is open. Typing edits the focused field
+ * and `Tab` switches between the query and the replacement. `Enter` and
+ * `Down` move to the next match, `Shift+Enter` and `Up` to the previous one.
+ * In the replace field, `Enter` replaces the current match and `Meta+Enter`
+ * replaces all of them. `Meta+C`, `Meta+W` and `Meta+R` toggle case-sensitive,
+ * whole-word and regex search. `Escape` closes the find bar, leaving the cursor
+ * at the current match, and other keys close it and are handled as usual,
+ * which is when `isHandled` is false.
+ */
+export function handleFindKey(
+	find: FindState,
+	context: CommandContext,
+	input: string,
+	chord: string | undefined,
+): {find?: FindState; result?: CommandResult; isHandled: boolean} {
+	const fieldText = find.field === 'query' ? find.query : find.replacement;
+
+	const editField = (text: string) =>
+		find.field === 'query'
+			? showCurrentMatch({...find, query: text}, context)
+			: {find: {...find, replacement: text}, isHandled: true};
+
+	if (chord === undefined) {
+		return editField(fieldText + input.replaceAll(/[\r\n]/g, ''));
+	}
+
+	switch (chord) {
+		case 'backspace': {
+			return editField(
+				fieldText.slice(
+					0,
+					getPreviousGraphemeOffset(fieldText, fieldText.length),
+				),
+			);
+		}
+
+		case 'tab':
+		case 'shift+tab': {
+			return {
+				find: {
+					...find,
+					field: find.field === 'query' ? 'replacement' : 'query',
+					isReplaceVisible: true,
+				},
+				isHandled: true,
+			};
+		}
+
+		case 'enter': {
+			return find.field === 'query'
+				? moveToMatch(find, context, 1)
+				: replace(find, context, 'current');
+		}
+
+		case 'down': {
+			return moveToMatch(find, context, 1);
+		}
+
+		case 'shift+enter':
+		case 'up': {
+			return moveToMatch(find, context, -1);
+		}
+
+		case 'meta+enter': {
+			return find.field === 'replacement'
+				? replace(find, context, 'all')
+				: {find, isHandled: true};
+		}
+
+		case 'meta+c': {
+			return showCurrentMatch(
+				{...find, isCaseSensitive: !find.isCaseSensitive},
+				context,
+			);
+		}
+
+		case 'meta+w': {
+			return showCurrentMatch(
+				{...find, isWholeWord: !find.isWholeWord},
+				context,
+			);
+		}
+
+		case 'meta+r': {
+			return showCurrentMatch({...find, isRegex: !find.isRegex}, context);
+		}
+
+		case 'ctrl+f': {
+			return {find: {...find, field: 'query'}, isHandled: true};
+		}
+
+		case 'escape': {
+			return {isHandled: true};
+		}
+
+		default: {
+			return {isHandled: false};
+		}
+	}
+}
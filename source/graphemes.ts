@@ -0,0 +1,71 @@
+import stringWidth from 'string-width';
+
+/**
+ * Helpers for moving through text by graphemes, the characters as users see them.
+ * An emoji, a letter with combining accents or `\r\n` span several string
+ * indexes, so offsets must never land inside them.
+ */
+
+const segmenter = new Intl.Segmenter(undefined, {granularity: 'grapheme'});
+
+/**
+ * Splits `text` into graphemes.
+ */
+export function splitGraphemes(text: string): string[] {
+	return Array.from(segmenter.segment(text), ({segment}) => segment);
+}
+
+/**
+ * Returns the offset after the grapheme that starts at `offset`.
+ */
+export function getNextGraphemeOffset(value: string, offset: number): number {
+	if (offset >= value.length) {
+		return value.length;
+	}
+
+	const {index, segment} = segmenter.segment(value).containing(offset)!;
+	return index + segment.length;
+}
+
+/**
+ * Returns the offset of the grapheme that ends at `offset`.
+ */
+export function getPreviousGraphemeOffset(
+	value: string,
+	offset: number,
+): number {
+	if (offset <= 0) {
+		return 0;
+	}
+
+	return segmenter.segment(value).containing(offset - 1)!.index;
+}
+
+/**
+ * Moves an offset inside a grapheme to the start or end of that grapheme.
+ */
+export function snapToGrapheme(
+	value: string,
+	offset: number,
+	direction: 'start' | 'end' = 'start',
+): number {
+	if (offset <= 0 || offset >= value.length) {
+		return Math.max(0, Math.min(offset, value.length));
+	}
+
+	const {index, segment} = segmenter.segment(value).containing(offset)!;
+
+	if (index === offset || direction === 'start') {
+		return index;
+	}
+
+	return index + segment.length;
+}
+
+/**
+ * Returns the number of terminal columns `text` takes up, where CJK characters
+ * and most emoji are two columns wide and combining marks take up none.
+ */
+export function getWidth(text: string): number {
+	return stringWidth(text);
+}
@@ -0,0 +1,118 @@
+import hljs from 'highlight.js';
+import type {TextProps} from 'ink';
+
+/**
+ * A range of highlighted code, e.g. a keyword or a string literal.
+ * Ranges can be nested, like a function name inside a function declaration.
+ */
+export type TokenRange = {
+	/**
+	 * Start character index (inclusive).
+	 */
+	start: number;
+	/**
+	 * End character index (exclusive).
+	 */
+	end: number;
+	/**
+	 * Token type, e.g. `'keyword'`, `'string'` or `'comment'`. Sub-scopes are
+	 * joined with a dot, like `'title.function'`.
+	 */
+	type: string;
+};
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const entities: Record<string, string> = {
+	'&amp;': '&',
+	'&lt;': '<',
+	'&gt;': '>',
+	'&quot;': '"',
+	'&#x27;': "'",
+	'&#39;': "'",
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+// Markup produced by highlight.js: opening and closing spans and escaped text
+const markupPattern = /<span class="([^"]*)">|<\/span>|([^<]+)/g;
+
+/**
+ * Returns the scope of a highlight.js span, e.g. `title.function` for the
+ * classes `hljs-title function_`.
+ */
+function getScope(className: string): string {
+	const [scope = '', ...subScopes] = className.split(' ');
+
+	return [
+		scope.replace(/^hljs-/, ''),
+		...subScopes.map(subScope => subScope.replace(/_+$/, '')),
+	].join('.');
+}
+
+/**
+ * Function that splits text into typed token ranges for syntax highlighting.
+ */
+export type Tokenizer = (text: string) => TokenRange[];
+
+/**
+ * Tokenizes `code` in one pass, returning token ranges ordered by their start,
+ * with outer ranges before the ranges nested in them.
+ * Returns no tokens for unknown languages.
+ */
+export function tokenize(code: string, language: string): TokenRange[] {
+	if (!hljs.getLanguage(language)) {
+		return [];
+	}
+
+	const {value: html} = hljs.highlight(code, {language, ignoreIllegals: true});
+	const tokens: TokenRange[] = [];
+	const openTokens: TokenRange[] = [];
+	let offset = 0;
+
+	for (const [, className, text] of html.matchAll(markupPattern)) {
+		if (text !== undefined) {
+			offset += text.replaceAll(
+				/&[#\w]+;/g,
+				entity => entities[entity] ?? entity,
+			).length;
+		} else if (className === undefined) {
+			const token = openTokens.pop();
+
+			if (token) {
+				token.end = offset;
+			}
+		} else {
+			const token = {
+				start: offset,
+				end: offset,
+				type: getScope(className),
+			};
+
+			tokens.push(token);
+			openTokens.push(token);
+		}
+	}
+
+	return tokens.filter(token => token.start < token.end);
+}
+
+/**
+ * Merges styles of tokens covering a piece of text, nested tokens take precedence.
+ * A sub-scope like `title.function` is styled over its parent scope `title`.
+ */
+export function mergeTokenStyles(
+	tokens: TokenRange[],
+	styles: Record<string, Partial<TextProps>>,
+): Partial<TextProps> | undefined {
+	if (tokens.length === 0) return undefined;
+
+	const merged: Partial<TextProps> = {};
+	for (const token of tokens) {
+		const scopes = token.type.split('.');
+
+		for (const index of scopes.keys()) {
+			Object.assign(merged, styles[scopes.slice(0, index + 1).join('.')]);
+		}
+	}
+
+	return merged;
+}
@@ -0,0 +1,218 @@
+import {getClosingCharacter} from './brackets.js';
+import {applyEdits, type TextEdit} from './changes.js';
+import {getLineEnd, getLineStart} from './lines.js';
+import type {Selection} from './selection.js';
+
+/**
+ * How the value is indented, see the `tabWidth`, `insertSpaces` and `autoIndent` props.
+ */
+export type IndentOptions = {
+	tabWidth: number;
+	insertSpaces: boolean;
+	autoIndent: boolean;
+	/**
+	 * Language of the value, which decides what starts an indented block.
+	 */
+	language?: string;
+};
+
+/**
+ * Line endings after which the next line is indented further, by language.
+ * Other languages indent after an opening bracket, and plain text isn't indented further.
+ */
+const blockStarts: Record<string, RegExp> = {
+	python: /[([{:]\s*$/,
+	py: /[([{:]\s*$/,
+	yaml: /[:[{]\s*$/,
+	yml: /[:[{]\s*$/,
+};
+
+const bracketBlockStart = /[([{]\s*$/;
+
+/**
+ * Returns the whitespace at the start of the line containing `offset`.
+ */
+function getIndentation(value: string, offset: number): string {
+	const lineStart = getLineStart(value, offset);
+	return /^[ \t]*/.exec(
+		value.slice(lineStart, getLineEnd(value, lineStart)),
+	)![0];
+}
+
+/**
+ * Returns the text inserted for one level of indentation.
+ */
+function getIndentLevel({tabWidth, insertSpaces}: IndentOptions): string {
+	return insertSpaces ? ' '.repeat(tabWidth) : '\t';
+}
+
+/**
+ * Returns the text that `Tab` inserts at `column`: a tab, or spaces up to the next tab stop.
+ */
+export function getIndentText(column: number, options: IndentOptions): string {
+	return options.insertSpaces
+		? ' '.repeat(options.tabWidth - (column % options.tabWidth))
+		: '\t';
+}
+
+/**
+ * Returns the text that `Enter` inserts at the cursor and the cursor offset
+ * within it. The new line keeps the indentation of the current one, and is
+ * indented further when the line so far starts a block. Between a bracket and
+ * its closing one, the closing bracket moves to a line of its own.
+ */
+export function getNewlineText(
+	value: string,
+	cursorOffset: number,
+	options: IndentOptions,
+): {text: string; cursorOffset: number} {
+	if (!options.autoIndent) {
+		return {text: '\n', cursorOffset: 1};
+	}
+
+	const lineStart = getLineStart(value, cursorOffset);
+	const indentation = getIndentation(value, cursorOffset).slice(
+		0,
+		cursorOffset - lineStart,
+	);
+	const lineBefore = value.slice(lineStart, cursorOffset);
+	const blockStart = options.language
+		? (blockStarts[options.language] ?? bracketBlockStart)
+		: undefined;
+
+	if (!blockStart?.test(lineBefore)) {
+		return {text: '\n' + indentation, cursorOffset: indentation.length + 1};
+	}
+
+	const innerIndentation = indentation + getIndentLevel(options);
+	const opener = lineBefore.trimEnd().at(-1)!;
+	const closer = getClosingCharacter(opener);
+
+	if (closer !== undefined && value[cursorOffset] === closer) {
+		return {
+			text: '\n' + innerIndentation + '\n' + indentation,
+			cursorOffset: innerIndentation.length + 1,
+		};
+	}
+
+	return {
+		text: '\n' + innerIndentation,
+		cursorOffset: innerIndentation.length + 1,
+	};
+}
+
+/**
+ * Result of editing the start of lines, with a function that moves offsets along with the edit.
+ */
+export type LineEdit = {
+	value: string;
+	/**
+	 * Edits of the line starts, from the last line to the first.
+	 */
+	edits: TextEdit[];
+	mapOffset: (offset: number) => number;
+};
+
+/**
+ * Returns the offsets of the starts of lines touched by `range`. A range that
+ * ends right after a line break doesn't touch the line after it.
+ */
+function getLineStarts(value: string, {start, end}: Selection): number[] {
+	const lastOffset = end > start && value[end - 1] === '\n' ? end - 1 : end;
+	const lineStarts = [getLineStart(value, start)];
+
+	for (
+		let index = value.indexOf('\n', start);
+		index !== -1 && index < lastOffset;
+		index = value.indexOf('\n', index + 1)
+	) {
+		lineStarts.push(index + 1);
+	}
+
+	return lineStarts;
+}
+
+/**
+ * Replaces the first `removeLength` characters of every line in `range` with `text`.
+ */
+function editLineStarts(
+	value: string,
+	range: Selection,
+	edit: (line: string) => {removeLength: number; text: string},
+): LineEdit | undefined {
+	const edits: Array<{offset: number; removeLength: number; text: string}> = [];
+
+	for (const lineStart of getLineStarts(value, range)) {
+		const lineEdit = edit(value.slice(lineStart, getLineEnd(value, lineStart)));
+
+		if (lineEdit.removeLength > 0 || lineEdit.text !== '') {
+			edits.push({offset: lineStart, ...lineEdit});
+		}
+	}
+
+	if (edits.length === 0) {
+		return undefined;
+	}
+
+	// Editing from the last line keeps the offsets of the others valid
+	const textEdits = edits
+		.map(({offset, removeLength, text}) => ({
+			range: {start: offset, end: offset + removeLength},
+			text,
+		}))
+		.reverse();
+
+	return {
+		value: applyEdits(value, textEdits),
+		edits: textEdits,
+		mapOffset(offset) {
+			let mappedOffset = offset;
+
+			for (const {offset: editOffset, removeLength, text} of edits) {
+				if (offset >= editOffset) {
+					mappedOffset +=
+						text.length - Math.min(removeLength, offset - editOffset);
+				}
+			}
+
+			return mappedOffset;
+		},
+	};
+}
+
+/**
+ * Indents every non-empty line in `range` by one level.
+ */
+export function indentLines(
+	value: string,
+	range: Selection,
+	options: IndentOptions,
+): LineEdit | undefined {
+	return editLineStarts(value, range, line => ({
+		removeLength: 0,
+		text: line.trim() === '' ? '' : getIndentLevel(options),
+	}));
+}
+
+/**
+ * Removes one level of indentation from every line in `range`: a tab, or spaces
+ * back to the previous tab stop.
+ */
+export function outdentLines(
+	value: string,
+	range: Selection,
+	{tabWidth}: IndentOptions,
+): LineEdit | undefined {
+	return editLineStarts(value, range, line => {
+		if (line.startsWith('\t')) {
+			return {removeLength: 1, text: ''};
+		}
+
+		const spaces = /^ */.exec(line)![0].length;
+
+		return {
+			removeLength: Math.min(spaces, spaces % tabWidth || tabWidth),
+			text: '',
+		};
+	});
+}
@@ -1,471 +1,545 @@
-import React, {useState, useEffect} from 'react';
-import {Text, useInput, type TextProps} from 'ink';
-import chalk from 'chalk';
+import React, {
+	Fragment,
+	forwardRef,
+	useState,
+	useEffect,
+	useImperativeHandle,
+	useRef,
+	type ForwardedRef,
+	type ReactNode,
+} from 'react';
+import {Box, Text, useFocus, useFocusManager} from 'ink';
 import type {Except} from 'type-fest';
-import SyntaxHighlight from 'ink-syntax-highlight';
+import CompletionMenu from './completion-menu.js';
+import DecorationHint from './decoration-hint.js';
+import DiagnosticSummary from './diagnostic-summary.js';
+import FindBar from './find-bar.js';
+import {
+	getDecorationsAt,
+	mergeDecorationStyles,
+	type Decoration,
+} from './decorations.js';
+import {splitGraphemes} from './graphemes.js';
+import {getChord, useKeypress, type Keypress} from './keys.js';
+import {mergeTokenStyles} from './highlight.js';
+import {getColumn} from './lines.js';
+import type {Segment} from './segments.js';
+import type {ResolvedTheme} from './theme.js';
+import {getSelection, type Selection} from './selection.js';
+import {
+	useCodeEditor,
+	type CodeEditor,
+	type CodeEditorOptions,
+} from './use-code-editor.js';
+import {
+	clipToViewport,
+	expandPieceTabs,
+	getScrollColumn,
+	type ScrollIndicator,
+	type StyledText,
+} from './viewport.js';
+
+export type {EditorCommand} from './commands.js';
+export type {ChangeCause, TextChange} from './changes.js';
+export type {CompletionItem} from './completion.js';
+export type {Decoration, DecorationStyle, QuickFix} from './decorations.js';
+export type {Diagnostic, DiagnosticSeverity} from './diagnostics.js';
+export type {
+	CodeEditorState,
+	EditorAction,
+	EditorEvent,
+	EditorOptions,
+	EditorUpdate,
+	UndoState,
+} from './editor.js';
+export type {TokenRange, Tokenizer} from './highlight.js';
+export type {Keypress} from './keys.js';
+export type {KeyBinding, KeyHandler, Keymap, SubmitKey} from './keymap.js';
+export type {Segment, SegmentOptions} from './segments.js';
+export type {Selection} from './selection.js';
+export type {Snippet, SnippetSession} from './snippets.js';
+export type {HistoryStore, HistoryStoreOptions} from './submission-history.js';
+export type {Suggestion, Token} from './suggestion.js';
+export type {ResolvedTheme, Style, Theme} from './theme.js';
+export type {
+	CodeEditor,
+	CodeEditorOptions,
+	SuggestionOptions,
+} from './use-code-editor.js';
+export type {ProviderOptions} from './use-provider-result.js';
+export type {ScrollIndicator} from './viewport.js';
+export type {VimMode} from './vim.js';
+export {createEditorState, updateEditor} from './editor.js';
+export {tokenize} from './highlight.js';
+export {getChord, useKeypress} from './keys.js';
+export {createSegments} from './segments.js';
+export {createHistoryStore} from './submission-history.js';
+export {defaultTheme, monochromeTheme} from './theme.js';
+export {useCodeEditor} from './use-code-editor.js';
 
 /**
- * Decoration style preset names.
+ * Methods to control the editor from the outside, passed to the `ref` prop.
+ * Edits made with them are undone separately from typing.
  */
-export type DecorationStyle = 'error' | 'warning' | 'info' | 'highlight';
-
-/**
- * A decoration that highlights a range of text with custom styles.
- */
-export type Decoration = {
+export type TextInputHandle = {
 	/**
-	 * Start character index (0-indexed, inclusive).
+	 * Replaces the selection with `text`, or inserts it at the cursor.
 	 */
-	start: number;
+	insertText: (text: string) => void;
 	/**
-	 * End character index (exclusive).
+	 * Replaces the text in `range`, clamped to the value, and places the cursor
+	 * after the new text.
 	 */
-	end: number;
+	replaceRange: (range: Selection, text: string) => void;
 	/**
-	 * Preset style to apply.
+	 * Moves the cursor, selecting the text up to `selectionAnchor` when it's passed.
 	 */
-	style: DecorationStyle;
+	setCursor: (cursorOffset: number, selectionAnchor?: number) => void;
+	getCursor: () => {cursorOffset: number; selection?: Selection};
+	selectAll: () => void;
+	/**
+	 * Moves Ink's focus to the input, see the `focusId` prop.
+	 */
+	focus: () => void;
 };
 
 /**
- * Style mappings for decoration presets.
+ * Keypress passed to `onKeyDown`.
  */
-const decorationStyles: Record<DecorationStyle, Partial<TextProps>> = {
-	error: {color: 'red', underline: true},
-	warning: {color: 'yellow', underline: true},
-	info: {color: 'blue', underline: true},
-	highlight: {backgroundColor: 'yellow'},
+export type KeyDownEvent = {
+	input: string;
+	key: Keypress;
+	/**
+	 * Chord of the keypress in keymap form (e.g. `'ctrl+a'`),
+	 * or `undefined` when the keypress inserts text.
+	 */
+	chord?: string;
 };
 
-export type Props = {
+export type Props = CodeEditorOptions & {
 	/**
 	 * Text to display when `value` is empty.
 	 */
 	readonly placeholder?: string;
 
 	/**
-	 * Listen to user's input. Useful in case there are multiple input components
-	 * at the same time and input must be "routed" to a specific component.
-	 */
-	readonly focus?: boolean; // eslint-disable-line react/boolean-prop-naming
-
-	/**
-	 * Replace all chars and mask the value. Useful for password inputs.
-	 */
-	readonly mask?: string;
-
-	/**
-	 * Whether to show cursor and allow navigation inside text input with arrow keys.
-	 */
-	readonly showCursor?: boolean; // eslint-disable-line react/boolean-prop-naming
-
-	/**
-	 * Highlight pasted text
-	 */
-	readonly highlightPastedText?: boolean; // eslint-disable-line react/boolean-prop-naming
-
-	/**
-	 * Value to display in a text input.
-	 */
-	readonly value: string;
-
-	/**
-	 * Function to call when value updates.
-	 */
-	readonly onChange: (value: string) => void;
-
-	/**
-	 * Function to call when `Enter` is pressed, where first argument is a value of the input.
+	 * Id to register the input with as one of Ink's focusable components, so
+	 * `Tab` and `useFocusManager()` move the focus to it like to other components.
 	 */
-	readonly onSubmit?: (value: string) => void;
+	readonly focusId?: string;
 
 	/**
-	 * Language for syntax highlighting (e.g., 'sql', 'javascript', 'python').
-	 * When not specified, no syntax highlighting is applied.
+	 * Function to call for every keypress before the editor handles it.
+	 * Return `true` to consume the keypress, so the editor ignores it.
 	 */
-	readonly language?: string;
+	readonly onKeyDown?: (event: KeyDownEvent) => boolean | void;
 
 	/**
-	 * Function that returns an autocomplete suggestion based on the current value.
-	 * The suggestion should be the complete text (including what's already typed).
-	 * A grey ghost text will appear showing the remainder of the suggestion.
+	 * Text shown dimmed after the value while a provider's promise is pending, e.g. `'…'`.
 	 */
-	readonly getSuggestion?: (value: string) => string | undefined;
+	readonly loadingIndicator?: string;
 
 	/**
-	 * Callback when a suggestion is accepted (via right arrow key).
+	 * Width of a viewport in terminal columns that scrolls horizontally to keep
+	 * the cursor visible, instead of wrapping long values. Only used in single-line mode.
 	 */
-	readonly onSuggestionAccept?: (accepted: string) => void;
+	readonly width?: number;
 
 	/**
-	 * Array of decorations to apply to the text.
-	 * Each decoration highlights a range of text with a preset style.
-	 * Decorations only work when `language` is specified (syntax highlighting mode).
+	 * Markers shown at the edges of the viewport when there is hidden text,
+	 * `'ellipsis'` (`…`) or `'arrow'` (`←` and `→`).
 	 */
-	readonly decorations?: Decoration[];
+	readonly scrollIndicator?: ScrollIndicator;
 };
 
 /**
- * Merges multiple decoration styles into a single style object.
- * Later decorations in the array take precedence for conflicting properties.
+ * Returns the placeholder shown for an empty value, starting with the cursor when it's visible.
  */
-function mergeDecorationStyles(
-	decorations: Decoration[],
-): Partial<TextProps> | undefined {
-	if (decorations.length === 0) return undefined;
-
-	const merged: Partial<TextProps> = {};
-	for (const dec of decorations) {
-		const style = decorationStyles[dec.style];
-		Object.assign(merged, style);
-	}
-
-	return merged;
+function getPlaceholderPieces(
+	placeholder: string,
+	showCursor: boolean,
+	theme: ResolvedTheme,
+): StyledText[] {
+	return showCursor
+		? [
+				{
+					key: 'cursor',
+					text: placeholder[0]!,
+					style: theme.cursor,
+					isCursor: true,
+				},
+				{
+					key: 'placeholder',
+					text: placeholder.slice(1),
+					style: theme.placeholder,
+				},
+			]
+		: [{key: 'placeholder', text: placeholder, style: theme.placeholder}];
 }
 
 /**
- * Represents a segment of text to render with specific styling.
+ * Returns the cursor after the last character, and text shown after the value
+ * like ghost text and the loading indicator.
  */
-type Segment = {
-	text: string;
-	start: number;
-	end: number;
-	isCursor: boolean;
-	decorations: Decoration[];
+function getTrailingPieces(
+	text: string,
+	showCursor: boolean,
+	theme: ResolvedTheme,
+): StyledText[] {
+	return [
+		...(showCursor
+			? [{key: 'cursor', text: ' ', style: theme.cursor, isCursor: true}]
+			: []),
+		...(text ? [{key: 'trailing', text, style: theme.ghostText}] : []),
+	];
+}
+
+type PanelOptions = Pick<
+	CodeEditor,
+	'state' | 'findResult' | 'completion' | 'theme'
+> & {
+	/**
+	 * Column of the viewport where the completed word starts.
+	 */
+	completionColumn: number | undefined;
+	/**
+	 * Decoration under the cursor with a message.
+	 */
+	hint: Decoration | undefined;
 };
 
 /**
- * Creates segments of text based on cursor position and decorations.
- * Each segment has a unique combination of styling needs.
+ * Returns what is shown below the input, if anything: the find bar, the history
+ * search, the completion menu or the message of the decoration under the cursor,
+ * in that order of precedence.
  */
-function createSegments(
-	value: string,
-	cursorOffset: number,
-	decorations: Decoration[],
-	showCursor: boolean,
-): Segment[] {
-	// Clamp decorations to valid bounds
-	const clampedDecorations = decorations.map(dec => ({
-		...dec,
-		start: Math.max(0, Math.min(dec.start, value.length)),
-		end: Math.max(0, Math.min(dec.end, value.length)),
-	}));
-
-	// Collect all split points
-	const splitPoints = new Set<number>([0, value.length]);
-
-	// Add cursor position as split point
-	if (showCursor) {
-		splitPoints.add(cursorOffset);
-		if (cursorOffset < value.length) {
-			splitPoints.add(cursorOffset + 1);
-		}
+function renderPanel({
+	state: {find, historySearch},
+	findResult,
+	completion,
+	completionColumn = 0,
+	hint,
+	theme,
+}: PanelOptions): ReactNode {
+	if (find) {
+		return (
+			<FindBar
+				find={find}
+				matchCount={findResult?.matches.length ?? 0}
+				currentIndex={findResult?.currentIndex}
+				error={findResult?.error}
+			/>
+		);
 	}
 
-	// Add decoration boundaries
-	for (const dec of clampedDecorations) {
-		if (dec.start < dec.end) {
-			splitPoints.add(dec.start);
-			splitPoints.add(dec.end);
-		}
+	if (historySearch) {
+		return (
+			<Text dimColor>
+				{historySearch.isFailing && 'failing '}
+				reverse-i-search: {historySearch.query}
+			</Text>
+		);
 	}
 
-	// Sort and filter valid points
-	const points = [...splitPoints]
-		.sort((a, b) => a - b)
-		.filter(p => p >= 0 && p <= value.length);
-
-	// Create segments
-	const segments: Segment[] = [];
-	for (let i = 0; i < points.length - 1; i++) {
-		const start = points[i]!;
-		const end = points[i + 1]!;
-		const text = value.slice(start, end);
-		const isCursor =
-			showCursor && start === cursorOffset && end === cursorOffset + 1;
-
-		// Find decorations that overlap with this segment
-		const appliedDecorations = clampedDecorations.filter(
-			dec => dec.start < end && dec.end > start,
+	if (completion) {
+		return (
+			<CompletionMenu
+				completion={completion}
+				column={Math.max(0, completionColumn)}
+			/>
 		);
-
-		segments.push({
-			text,
-			start,
-			end,
-			isCursor,
-			decorations: appliedDecorations,
-		});
 	}
 
-	return segments;
+	return hint && <DecorationHint decoration={hint} theme={theme} />;
 }
 
-function TextInput({
-	value: originalValue,
-	placeholder = '',
-	focus = true,
-	mask,
-	highlightPastedText = false,
-	showCursor = true,
-	onChange,
-	onSubmit,
-	language,
-	getSuggestion,
-	onSuggestionAccept,
-	decorations = [],
-}: Props) {
-	const [state, setState] = useState({
-		cursorOffset: (originalValue || '').length,
-		cursorWidth: 0,
-	});
-
-	const {cursorOffset, cursorWidth} = state;
+// Number of editors that need Ink's focus management disabled, per Ink app
+// (keyed by its `disableFocus`), so it's only enabled again once none do
+const focusDisablers = new WeakMap<() => void, number>();
+
+function TextInput(
+	{
+		placeholder = '',
+		focusId,
+		onKeyDown,
+		loadingIndicator,
+		width,
+		scrollIndicator = 'ellipsis',
+		...options
+	}: Props,
+	ref: ForwardedRef<TextInputHandle>,
+) {
+	const {
+		value,
+		focus = true,
+		mask,
+		multiline = false,
+		tabWidth = 4,
+		indentWithTab = false,
+	} = options;
+	const {
+		state,
+		dispatch,
+		getLatestState,
+		segments,
+		decorations,
+		diagnostics,
+		suggestion,
+		completion,
+		findResult,
+		isLoading,
+		isCursorVisible,
+		theme,
+	} = useCodeEditor(options);
+	const {cursorOffset, snippet} = state;
+	const {enableFocus, disableFocus, focus: focusComponent} = useFocusManager();
+	const scrollColumnRef = useRef(0);
+
+	// Ink moves the focus on `Tab`, which would happen on every indentation,
+	// when accepting a completion and when moving between snippet fields
+	const capturesTab =
+		focus &&
+		(indentWithTab || completion !== undefined || snippet !== undefined);
 
 	useEffect(() => {
-		setState(previousState => {
-			if (!focus || !showCursor) {
-				return previousState;
-			}
-
-			const newValue = originalValue || '';
-
-			if (previousState.cursorOffset > newValue.length - 1) {
-				return {
-					cursorOffset: newValue.length,
-					cursorWidth: 0,
-				};
-			}
-
-			return previousState;
-		});
-	}, [originalValue, focus, showCursor]);
-
-	const cursorActualWidth = highlightPastedText ? cursorWidth : 0;
-
-	const value = mask ? mask.repeat(originalValue.length) : originalValue;
-	let renderedValue = value;
-	let renderedPlaceholder = placeholder ? chalk.grey(placeholder) : undefined;
-
-	// Fake mouse cursor, because it's too inconvenient to deal with actual cursor and ansi escapes
-	if (showCursor && focus) {
-		renderedPlaceholder =
-			placeholder.length > 0
-				? chalk.inverse(placeholder[0]) + chalk.grey(placeholder.slice(1))
-				: chalk.inverse(' ');
-
-		renderedValue = value.length > 0 ? '' : chalk.inverse(' ');
-
-		let i = 0;
-
-		for (const char of value) {
-			renderedValue +=
-				i >= cursorOffset - cursorActualWidth && i <= cursorOffset
-					? chalk.inverse(char)
-					: char;
-
-			i++;
+		if (!capturesTab) {
+			return;
 		}
 
-		if (value.length > 0 && cursorOffset === value.length) {
-			renderedValue += chalk.inverse(' ');
-		}
-	}
+		const count = focusDisablers.get(disableFocus) ?? 0;
 
-	// Compute ghost text for autocomplete suggestion
-	let ghostText = '';
-	if (getSuggestion && focus && cursorOffset === originalValue.length) {
-		const suggestion = getSuggestion(originalValue);
-		if (
-			suggestion &&
-			suggestion.startsWith(originalValue) &&
-			suggestion !== originalValue
-		) {
-			ghostText = suggestion.slice(originalValue.length);
+		if (count === 0) {
+			disableFocus();
 		}
-	}
 
-	// Append ghost text in dim styling
-	if (ghostText) {
-		renderedValue += chalk.dim(ghostText);
-	}
+		focusDisablers.set(disableFocus, count + 1);
 
-	useInput(
-		(input, key) => {
-			if (
-				key.upArrow ||
-				key.downArrow ||
-				(key.ctrl && input === 'c') ||
-				key.tab ||
-				(key.shift && key.tab)
-			) {
-				return;
-			}
-
-			if (key.return) {
-				if (onSubmit) {
-					onSubmit(originalValue);
-				}
+		return () => {
+			const remaining = (focusDisablers.get(disableFocus) ?? 1) - 1;
+			focusDisablers.set(disableFocus, remaining);
 
-				return;
+			if (remaining === 0) {
+				enableFocus();
 			}
+		};
+	}, [capturesTab, enableFocus, disableFocus]);
 
-			let nextCursorOffset = cursorOffset;
-			let nextValue = originalValue;
-			let nextCursorWidth = 0;
-
-			if (key.leftArrow) {
-				if (showCursor) {
-					nextCursorOffset--;
-				}
-			} else if (key.rightArrow) {
-				if (showCursor) {
-					// Check if we should accept autocomplete suggestion
-					if (cursorOffset === originalValue.length && getSuggestion) {
-						const suggestion = getSuggestion(originalValue);
-						if (
-							suggestion &&
-							suggestion.startsWith(originalValue) &&
-							suggestion !== originalValue
-						) {
-							// Accept the suggestion
-							nextValue = suggestion;
-							nextCursorOffset = suggestion.length;
-							onSuggestionAccept?.(suggestion);
-						} else {
-							nextCursorOffset++;
-						}
-					} else {
-						nextCursorOffset++;
-					}
-				}
-			} else if (key.backspace || key.delete) {
-				if (cursorOffset > 0) {
-					nextValue =
-						originalValue.slice(0, cursorOffset - 1) +
-						originalValue.slice(cursorOffset, originalValue.length);
-
-					nextCursorOffset--;
-				}
-			} else {
-				nextValue =
-					originalValue.slice(0, cursorOffset) +
-					input +
-					originalValue.slice(cursorOffset, originalValue.length);
-
-				nextCursorOffset += input.length;
-
-				if (input.length > 1) {
-					nextCursorWidth = input.length;
-				}
+	useImperativeHandle(ref, () => ({
+		insertText(text) {
+			dispatch({type: 'insertText', text});
+		},
+		replaceRange(range, text) {
+			dispatch({type: 'replaceRange', range, text});
+		},
+		setCursor(cursorOffset, selectionAnchor) {
+			dispatch({type: 'setCursor', cursorOffset, selectionAnchor});
+		},
+		// The state of this render is out of date right after an edit through the handle
+		getCursor() {
+			const {cursorOffset, selectionAnchor} = getLatestState();
+
+			return {
+				cursorOffset,
+				selection: getSelection(selectionAnchor, cursorOffset),
+			};
+		},
+		selectAll() {
+			dispatch({type: 'command', command: 'selectAll'});
+		},
+		focus() {
+			if (focusId !== undefined) {
+				focusComponent(focusId);
 			}
+		},
+	}));
 
-			if (cursorOffset < 0) {
-				nextCursorOffset = 0;
-			}
+	useKeypress(
+		(input, key) => {
+			const chord = getChord(input, key);
 
-			if (cursorOffset > originalValue.length) {
-				nextCursorOffset = originalValue.length;
+			if (onKeyDown?.({input, key, chord}) === true) {
+				return;
 			}
 
-			setState({
-				cursorOffset: nextCursorOffset,
-				cursorWidth: nextCursorWidth,
-			});
-
-			if (nextValue !== originalValue) {
-				onChange(nextValue);
-			}
+			dispatch({type: 'keypress', input, chord});
 		},
 		{isActive: focus},
 	);
 
-	const displayValue = placeholder
-		? value.length > 0
-			? renderedValue
-			: renderedPlaceholder
-		: renderedValue;
-
-	// When syntax highlighting is enabled, use component-based rendering
-	// to avoid ANSI code conflicts between chalk and the syntax highlighter
-	if (language) {
-		const showGhost = ghostText && focus && cursorOffset === value.length;
-		const cursorVisible = showCursor && focus;
-
-		// Empty value with placeholder
-		if (value.length === 0 && placeholder) {
-			return (
-				<Text>
-					{cursorVisible ? (
-						<>
-							<Text inverse>{placeholder[0] ?? ' '}</Text>
-							<Text dimColor>{placeholder.slice(1)}</Text>
-						</>
-					) : (
-						<Text dimColor>{placeholder}</Text>
-					)}
-				</Text>
-			);
+	// Fake mouse cursor, because it's too inconvenient to deal with actual cursor and ansi escapes
+	const cursorAtEnd = cursorOffset === value.length;
+	const ghostText = suggestion?.ghostText ?? '';
+	const loadingText = loadingIndicator && isLoading ? loadingIndicator : '';
+
+	// Masks every grapheme, so an emoji is masked with a single character
+	const maskText = (text: string) =>
+		mask
+			? splitGraphemes(text)
+					.map(grapheme => (multiline && grapheme === '\n' ? grapheme : mask))
+					.join('')
+			: text;
+
+	const renderSegment = (seg: Segment): StyledText[] => {
+		const tokenStyle = mergeTokenStyles(seg.tokens, theme.tokens);
+		const text = maskText(seg.text);
+
+		// Cursor segment takes precedence over decorations
+		if (seg.isCursor) {
+			// Draw the cursor in front of a line break, which has no width,
+			// and ghost text in the middle of the value right before the cursor
+			return [
+				...(ghostText
+					? [{key: 'ghost', text: ghostText, style: theme.ghostText}]
+					: []),
+				...(seg.text === '\n'
+					? [
+							{key: 'cursor', text: ' ', style: theme.cursor, isCursor: true},
+							{key: 'cursor-line-break', text: '\n'},
+						]
+					: [
+							{
+								key: 'cursor',
+								text,
+								style: {...tokenStyle, ...theme.cursor},
+								isCursor: true,
+							},
+						]),
+			];
 		}
 
-		// Empty value without placeholder
-		if (value.length === 0) {
-			return cursorVisible ? <Text inverse> </Text> : <Text />;
+		if (seg.isPasted) {
+			return [
+				{
+					key: `paste-${seg.start}`,
+					text,
+					style: {...tokenStyle, inverse: true},
+				},
+			];
 		}
 
-		const cursorAtEnd = cursorOffset === value.length;
-
-		// Use segment-based rendering for decorations support
-		const segments = createSegments(
-			value,
-			cursorOffset,
-			decorations,
-			cursorVisible,
+		// Decorations are drawn over syntax highlighting, and selection on top of both
+		const decorationStyle = mergeDecorationStyles(
+			seg.decorations,
+			theme.decorations,
 		);
-
-		return (
-			<Text>
-				{segments.map(seg => {
-					// Cursor segment takes precedence over decorations
-					if (seg.isCursor) {
-						return (
-							<Text key={`cursor-${seg.start}`} inverse>
-								{seg.text}
-							</Text>
-						);
+		const segmentStyle =
+			(tokenStyle ?? decorationStyle ?? seg.isSelected)
+				? {
+						...tokenStyle,
+						...decorationStyle,
+						...(seg.isSelected && theme.selection),
 					}
+				: undefined;
+
+		return [{key: `seg-${seg.start}`, text, style: segmentStyle}];
+	};
+
+	const trailingText = (cursorAtEnd ? ghostText : '') + loadingText;
+
+	const pieces: StyledText[] = expandPieceTabs(
+		value.length === 0 && placeholder
+			? getPlaceholderPieces(placeholder, isCursorVisible, theme)
+			: [
+					...segments.flatMap(seg => renderSegment(seg)),
+					...getTrailingPieces(
+						trailingText,
+						isCursorVisible && cursorAtEnd,
+						theme,
+					),
+				],
+		tabWidth,
+	);
 
-					// Get merged decoration styles for this segment
-					const decorationStyle = mergeDecorationStyles(seg.decorations);
+	// Scroll the viewport only as far as needed to keep the cursor visible
+	const hasViewport = width !== undefined && !multiline;
+	const scrollColumn = hasViewport
+		? getScrollColumn(pieces, scrollColumnRef.current, width)
+		: 0;
+	scrollColumnRef.current = scrollColumn;
+
+	const input = (
+		<Text>
+			{(hasViewport
+				? clipToViewport(pieces, scrollColumn, width, scrollIndicator)
+				: pieces
+			).map(({key, text, style}) =>
+				style ? (
+					<Text key={key} {...style}>
+						{text}
+					</Text>
+				) : (
+					<Fragment key={key}>{text}</Fragment>
+				),
+			)}
+		</Text>
+	);
 
-					if (decorationStyle) {
-						// Render with decoration styles wrapping syntax highlight
-						return (
-							<Text key={`dec-${seg.start}`} {...decorationStyle}>
-								<SyntaxHighlight language={language} code={seg.text} />
-							</Text>
-						);
-					}
+	// Message of the decoration under the cursor, later decorations take precedence
+	const hint = isCursorVisible
+		? getDecorationsAt(decorations, cursorOffset)
+				.filter(decoration => decoration.message)
+				.at(-1)
+		: undefined;
+
+	const panel = renderPanel({
+		state,
+		findResult,
+		completion,
+		completionColumn:
+			completion &&
+			getColumn(value, completion.range.start, tabWidth) - scrollColumn,
+		hint,
+		theme,
+	});
 
-					// No decorations, just syntax highlight
-					return (
-						<SyntaxHighlight
-							key={`seg-${seg.start}`}
-							language={language}
-							code={seg.text}
-						/>
-					);
-				})}
-				{cursorVisible && cursorAtEnd && <Text inverse> </Text>}
-				{showGhost && <Text dimColor>{ghostText}</Text>}
-			</Text>
-		);
+	if (!panel && diagnostics.length === 0) {
+		return input;
 	}
 
-	return <Text>{displayValue}</Text>;
+	return (
+		<Box flexDirection="column">
+			{input}
+			{panel}
+			{diagnostics.length > 0 && (
+				<DiagnosticSummary diagnostics={diagnostics} theme={theme} />
+			)}
+		</Box>
+	);
 }
 
-export default TextInput;
+const BaseTextInput = forwardRef(TextInput);
+
+/**
+ * Input registered with Ink's focus management, see the `focusId` prop.
+ */
+function InkFocusableTextInput(
+	{focus, ...props}: Props & {readonly focusId: string},
+	ref: ForwardedRef<TextInputHandle>,
+) {
+	const {isFocused} = useFocus({id: props.focusId});
+
+	return <BaseTextInput {...props} ref={ref} focus={focus ?? isFocused} />;
+}
+
+const ForwardedInkFocusableTextInput = forwardRef(InkFocusableTextInput);
+
+// Only inputs with an id take part in Ink's focus management, since every
+// focusable component is cycled through with `Tab`
+function FocusableTextInput(props: Props, ref: ForwardedRef<TextInputHandle>) {
+	return props.focusId === undefined ? (
+		<BaseTextInput {...props} ref={ref} />
+	) : (
+		<ForwardedInkFocusableTextInput
+			{...props}
+			ref={ref}
+			focusId={props.focusId}
+		/>
+	);
+}
+
+const ForwardedTextInput = forwardRef(FocusableTextInput);
+
+export default ForwardedTextInput;
 
 type UncontrolledProps = {
 	/**
@@ -474,11 +548,22 @@ type UncontrolledProps = {
 	readonly initialValue?: string;
 } & Except<Props, 'value' | 'onChange'>;
 
-export function UncontrolledTextInput({
-	initialValue = '',
-	...props
-}: UncontrolledProps) {
+function UncontrolledTextInput(
+	{initialValue = '', ...props}: UncontrolledProps,
+	ref: ForwardedRef<TextInputHandle>,
+) {
 	const [value, setValue] = useState(initialValue);
 
-	return <TextInput {...props} value={value} onChange={setValue} />;
+	return (
+		<ForwardedTextInput
+			{...props}
+			ref={ref}
+			value={value}
+			onChange={setValue}
+		/>
+	);
 }
+
+const ForwardedUncontrolledTextInput = forwardRef(UncontrolledTextInput);
+
+export {ForwardedUncontrolledTextInput as UncontrolledTextInput};
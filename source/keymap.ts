@@ -0,0 +1,173 @@
+import type {EditorCommand} from './commands.js';
+import type {Selection} from './selection.js';
+
+/**
+ * Key chords that can submit the value in multi-line mode.
+ */
+export type SubmitKey = 'enter' | 'ctrl+enter' | 'meta+enter';
+
+/**
+ * Custom key handler. Return the new value and/or cursor position to change them.
+ */
+export type KeyHandler = (editor: {
+	value: string;
+	cursorOffset: number;
+	selection?: Selection;
+}) => {value?: string; cursorOffset?: number} | void;
+
+// The linter doesn't allow `null` as a type, so it's taken from a value
+const unbound = null;
+
+/**
+ * What a key chord does: an editor command, a list of commands where the first
+ * one that applies runs (e.g. `['acceptSuggestion', 'cursorRight']`),
+ * a custom handler, or `null` to leave the chord unbound.
+ */
+export type KeyBinding =
+	EditorCommand | EditorCommand[] | KeyHandler | typeof unbound | undefined;
+
+/**
+ * Maps key chords like `'ctrl+a'`, `'meta+enter'` or `'shift+left'` to bindings.
+ */
+export type Keymap = Record<string, KeyBinding>;
+
+const modifierOrder = ['ctrl', 'meta', 'shift'];
+
+const keyAliases: Record<string, string> = {
+	control: 'ctrl',
+	alt: 'meta',
+	option: 'meta',
+	return: 'enter',
+	esc: 'escape',
+	del: 'delete',
+};
+
+/**
+ * Normalizes a chord written by the user (e.g. `'Shift+Ctrl+Z'` or `'alt+b'`)
+ * to the form reported for keypresses (`'ctrl+shift+z'`, `'meta+b'`).
+ */
+export function normalizeChord(chord: string): string {
+	const parts = chord
+		.toLowerCase()
+		.split('+')
+		.map(part => keyAliases[part.trim()] ?? part.trim());
+	const name = parts.pop() ?? '';
+	const modifiers = modifierOrder.filter(modifier => parts.includes(modifier));
+
+	return [...modifiers, name].join('+');
+}
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const baseKeymap: Keymap = {
+	left: 'cursorLeft',
+	right: ['acceptSuggestion', 'cursorRight'],
+	home: 'lineStart',
+	'ctrl+a': 'lineStart',
+	end: 'lineEnd',
+	'ctrl+e': 'lineEnd',
+	'ctrl+left': 'wordLeft',
+	'meta+left': 'wordLeft',
+	'meta+b': 'wordLeft',
+	'ctrl+right': 'wordRight',
+	'meta+right': 'wordRight',
+	'meta+f': 'wordRight',
+	'shift+left': 'selectLeft',
+	'shift+right': 'selectRight',
+	'shift+home': 'selectLineStart',
+	'shift+end': 'selectLineEnd',
+	'ctrl+shift+left': 'selectWordLeft',
+	'ctrl+shift+right': 'selectWordRight',
+	backspace: 'deleteBackward',
+	delete: 'deleteForward',
+	'ctrl+w': 'killWordBackward',
+	'meta+backspace': 'killWordBackward',
+	'meta+d': 'killWordForward',
+	'ctrl+k': 'killLineEnd',
+	'ctrl+u': 'killLineStart',
+	// Killing text clears the redo history, so `Ctrl+Y` yanks right after a kill
+	'ctrl+y': ['redo', 'yank'],
+	'meta+y': 'yankPop',
+	'ctrl+c': 'copy',
+	'meta+c': 'copy',
+	'ctrl+x': 'cut',
+	'ctrl+v': 'paste',
+	'ctrl+z': 'undo',
+	'ctrl+shift+z': 'redo',
+	'meta+n': 'nextDecoration',
+	'meta+p': 'previousDecoration',
+	'meta+q': 'applyQuickFix',
+	'ctrl+r': 'historySearch',
+	'ctrl+f': 'find',
+	tab: ['acceptCompletion', 'nextSnippetField'],
+	'shift+tab': 'previousSnippetField',
+	escape: ['dismissCompletion', 'exitSnippet'],
+};
+
+const indentKeymap: Keymap = {
+	tab: ['acceptCompletion', 'nextSnippetField', 'indent'],
+	'shift+tab': ['previousSnippetField', 'outdent'],
+};
+
+/**
+ * Returns the default keymap. In multi-line mode, up/down move between lines
+ * and return chords other than `submitKey` insert a new line. While the
+ * completion menu is open, up/down move through it and `Enter` accepts an item.
+ * Otherwise up/down recall submitted values, from the first and last line in
+ * multi-line mode. While a snippet is inserted, `Tab` and `Shift+Tab` move
+ * between its fields. Otherwise they indent and outdent when `indentWithTab`
+ * is enabled, and are left to Ink's focus management when it isn't.
+ */
+export function getDefaultKeymap({
+	multiline,
+	submitKey,
+	indentWithTab,
+}: {
+	multiline: boolean;
+	submitKey: SubmitKey;
+	indentWithTab: boolean;
+}): Keymap {
+	const editingKeymap = indentWithTab
+		? {...baseKeymap, ...indentKeymap}
+		: baseKeymap;
+
+	if (!multiline) {
+		return {
+			...editingKeymap,
+			up: ['previousCompletion', 'historyPrevious'],
+			down: ['nextCompletion', 'historyNext'],
+			enter: ['acceptCompletion', 'submit'],
+			'ctrl+enter': 'submit',
+			'meta+enter': 'submit',
+		};
+	}
+
+	return {
+		...editingKeymap,
+		up: ['previousCompletion', 'historyPrevious', 'cursorUp'],
+		down: ['nextCompletion', 'historyNext', 'cursorDown'],
+		'shift+up': 'selectUp',
+		'shift+down': 'selectDown',
+		enter: ['acceptCompletion', 'newline'],
+		'ctrl+enter': 'newline',
+		'meta+enter': 'newline',
+		[submitKey]:
+			submitKey === 'enter' ? ['acceptCompletion', 'submit'] : 'submit',
+	};
+}
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Merges custom bindings over the default keymap, normalizing their chords.
+ */
+export function createKeymap(
+	defaultKeymap: Keymap,
+	customKeymap: Keymap = {},
+): Map<string, KeyBinding> {
+	const keymap = new Map(Object.entries(defaultKeymap));
+
+	for (const [chord, binding] of Object.entries(customKeymap)) {
+		keymap.set(normalizeChord(chord), binding);
+	}
+
+	return keymap;
+}
@@ -0,0 +1,180 @@
+import {useEffect, useRef} from 'react';
+import {useInput, useStdin, type Key} from 'ink';
+
+/**
+ * Key information reported by Ink, extended with keys that Ink doesn't recognize.
+ */
+export type Keypress = Key & {
+	/**
+	 * `Home` key was pressed.
+	 */
+	home: boolean;
+	/**
+	 * `End` key was pressed.
+	 */
+	end: boolean;
+	/**
+	 * `Delete` key was pressed. Ink reports it the same way as `Backspace`.
+	 */
+	forwardDelete: boolean;
+};
+
+// Sequences for Home and End with the leading escape stripped, including
+// the variants with modifiers (e.g. `[1;2H` for Shift+Home)
+const homeSequence = /^(?:\[(?:1;\d+)?H|OH|\[[17](?:;\d+)?[~$^])$/;
+const endSequence = /^(?:\[(?:1;\d+)?F|OF|\[[48](?:;\d+)?[~$^])$/;
+const deleteSequence = /^\[3(?:;\d+)?[~$^]$/;
+
+function matchesSequence(sequence: string, pattern: RegExp): boolean {
+	return sequence.startsWith('\u001B') && pattern.test(sequence.slice(1));
+}
+
+/**
+ * Same as Ink's `useInput`, but also detects keys that Ink reports as empty input.
+ * Ink doesn't pass the raw sequence to input handlers, so it's captured from
+ * the stdin event emitter right before Ink handles it.
+ */
+export function useKeypress(
+	inputHandler: (input: string, key: Keypress) => void,
+	options: {isActive?: boolean} = {},
+): void {
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	const {internal_eventEmitter} = useStdin();
+	const sequenceRef = useRef('');
+
+	useEffect(() => {
+		if (options.isActive === false) {
+			return;
+		}
+
+		const handleData = (data: unknown) => {
+			sequenceRef.current = String(data);
+		};
+
+		internal_eventEmitter?.prependListener('input', handleData);
+
+		return () => {
+			internal_eventEmitter?.removeListener('input', handleData);
+		};
+	}, [options.isActive, internal_eventEmitter]);
+
+	useInput((input, key) => {
+		const sequence = sequenceRef.current;
+
+		inputHandler(input, {
+			...key,
+			home: matchesSequence(sequence, homeSequence),
+			end: matchesSequence(sequence, endSequence),
+			forwardDelete: matchesSequence(sequence, deleteSequence),
+		});
+	}, options);
+}
+
+/**
+ * Detects which return chord was pressed, if any.
+ * Terminals send `Meta+Enter` as `ESC CR`, which Ink reports as a bare `\r` input,
+ * and usually send `Ctrl+Enter` as a line feed. Terminals that support the
+ * "CSI u" protocol report both as escape sequences instead, and are the only
+ * ones that tell `Shift+Enter` apart from `Enter`.
+ */
+function getReturnChord(input: string, key: Keypress): string | undefined {
+	if (key.return) {
+		return 'enter';
+	}
+
+	if (input === '\r' || input === '[13;3u') {
+		return 'meta+enter';
+	}
+
+	if (input === '\n' || input === '[13;5u') {
+		return 'ctrl+enter';
+	}
+
+	if (input === '[13;2u') {
+		return 'shift+enter';
+	}
+
+	return undefined;
+}
+
+function getKeyName(input: string, key: Keypress): string | undefined {
+	if (key.upArrow) {
+		return 'up';
+	}
+
+	if (key.downArrow) {
+		return 'down';
+	}
+
+	if (key.leftArrow) {
+		return 'left';
+	}
+
+	if (key.rightArrow) {
+		return 'right';
+	}
+
+	if (key.home) {
+		return 'home';
+	}
+
+	if (key.end) {
+		return 'end';
+	}
+
+	if (key.pageUp) {
+		return 'pageup';
+	}
+
+	if (key.pageDown) {
+		return 'pagedown';
+	}
+
+	if (key.tab) {
+		return 'tab';
+	}
+
+	if (key.forwardDelete) {
+		return 'delete';
+	}
+
+	if (key.backspace || key.delete) {
+		return 'backspace';
+	}
+
+	// Other keys are only named when combined with Ctrl or Meta,
+	// otherwise they insert text
+	if ((key.ctrl || key.meta) && input.length === 1) {
+		return input === ' ' ? 'space' : input.toLowerCase();
+	}
+
+	return undefined;
+}
+
+/**
+ * Returns the chord for a keypress in the form used by keymaps, with modifiers
+ * in `ctrl`, `meta`, `shift` order (e.g. `ctrl+shift+left`), or `undefined`
+ * when the keypress inserts text.
+ */
+export function getChord(input: string, key: Keypress): string | undefined {
+	const returnChord = getReturnChord(input, key);
+
+	if (returnChord) {
+		return returnChord;
+	}
+
+	// Ink reports the escape key as `meta`
+	if (key.escape) {
+		return 'escape';
+	}
+
+	const name = getKeyName(input, key);
+
+	if (!name) {
+		return undefined;
+	}
+
+	return [key.ctrl && 'ctrl', key.meta && 'meta', key.shift && 'shift', name]
+		.filter(Boolean)
+		.join('+');
+}
@@ -0,0 +1,45 @@
+/**
+ * Texts removed with kill commands (`Ctrl+K`, `Ctrl+U`, `Ctrl+W`, ...),
+ * most recent last. Yanking inserts the most recent one and `Meta+Y` right
+ * after a yank replaces it with older ones.
+ */
+export type KillRing = string[];
+
+/**
+ * Maximum number of killed texts kept in the ring.
+ */
+const maxEntries = 60;
+
+/**
+ * Adds killed text to the ring. Consecutive kills are appended to the most
+ * recent entry, so the text can be yanked back in one piece.
+ */
+export function addKill(
+	ring: KillRing,
+	text: string,
+	direction: 'forward' | 'backward',
+	appendToLast: boolean,
+): KillRing {
+	const last = ring.at(-1);
+
+	if (appendToLast && last !== undefined) {
+		const merged = direction === 'forward' ? last + text : text + last;
+		return [...ring.slice(0, -1), merged];
+	}
+
+	return [...ring, text].slice(-maxEntries);
+}
+
+/**
+ * Returns the entry `depth` positions back from the most recent one,
+ * wrapping around the ring.
+ */
+export function getKill(ring: KillRing, depth: number): string | undefined {
+	if (ring.length === 0) {
+		return undefined;
+	}
+
+	const index =
+		(((ring.length - 1 - depth) % ring.length) + ring.length) % ring.length;
+	return ring[index];
+}
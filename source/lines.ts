@@ -0,0 +1,133 @@
+import {getWidth, splitGraphemes} from './graphemes.js';
+
+/**
+ * Helpers for working with line-based positions inside a multi-line value.
+ * Offsets are string indexes, columns are terminal columns from the line start,
+ * so wide characters take up two columns and tabs reach the next tab stop.
+ */
+
+/**
+ * Returns the number of columns `grapheme` takes up when it starts at `column`.
+ */
+function getGraphemeWidth(
+	grapheme: string,
+	column: number,
+	tabWidth: number,
+): number {
+	return grapheme === '\t'
+		? tabWidth - (column % tabWidth)
+		: getWidth(grapheme);
+}
+
+/**
+ * Replaces tabs with spaces up to the next tab stop, for text starting at `column`.
+ */
+export function expandTabs(
+	text: string,
+	column: number,
+	tabWidth: number,
+): string {
+	if (!text.includes('\t')) {
+		return text;
+	}
+
+	let expanded = '';
+	let currentColumn = column;
+
+	for (const grapheme of splitGraphemes(text)) {
+		const width = getGraphemeWidth(grapheme, currentColumn, tabWidth);
+		expanded += grapheme === '\t' ? ' '.repeat(width) : grapheme;
+		currentColumn = grapheme === '\n' ? 0 : currentColumn + width;
+	}
+
+	return expanded;
+}
+
+/**
+ * Returns the offset of the first character of the line containing `offset`.
+ */
+export function getLineStart(value: string, offset: number): number {
+	return value.lastIndexOf('\n', offset - 1) + 1;
+}
+
+/**
+ * Returns the offset of the line break (or end of value) of the line containing `offset`.
+ */
+export function getLineEnd(value: string, offset: number): number {
+	const index = value.indexOf('\n', offset);
+	return index === -1 ? value.length : index;
+}
+
+/**
+ * Returns the column of `offset` within its line.
+ */
+export function getColumn(
+	value: string,
+	offset: number,
+	tabWidth: number,
+): number {
+	return getWidth(
+		expandTabs(value.slice(getLineStart(value, offset), offset), 0, tabWidth),
+	);
+}
+
+/**
+ * Returns the offset of the grapheme at `column` in the line starting at `lineStart`,
+ * or the offset of the line end when the line is shorter.
+ */
+function getOffsetAtColumn(
+	value: string,
+	lineStart: number,
+	column: number,
+	tabWidth: number,
+): number {
+	const line = value.slice(lineStart, getLineEnd(value, lineStart));
+	let offset = lineStart;
+	let width = 0;
+
+	for (const grapheme of splitGraphemes(line)) {
+		width += getGraphemeWidth(grapheme, width, tabWidth);
+
+		if (width > column) {
+			break;
+		}
+
+		offset += grapheme.length;
+	}
+
+	return offset;
+}
+
+/**
+ * Moves `offset` one line up or down, placing it at `column` or at the end of
+ * the target line when it is shorter. Moving up from the first line goes to
+ * the start of the value, moving down from the last line goes to the end.
+ */
+export function moveVertically(
+	value: string,
+	offset: number,
+	direction: 'up' | 'down',
+	column: number,
+	tabWidth: number,
+): number {
+	if (direction === 'up') {
+		const lineStart = getLineStart(value, offset);
+		if (lineStart === 0) {
+			return 0;
+		}
+
+		return getOffsetAtColumn(
+			value,
+			getLineStart(value, lineStart - 1),
+			column,
+			tabWidth,
+		);
+	}
+
+	const lineEnd = getLineEnd(value, offset);
+	if (lineEnd === value.length) {
+		return value.length;
+	}
+
+	return getOffsetAtColumn(value, lineEnd + 1, column, tabWidth);
+}
@@ -0,0 +1,145 @@
+import type {Decoration} from './decorations.js';
+import {getNextGraphemeOffset, snapToGrapheme} from './graphemes.js';
+import type {TokenRange} from './highlight.js';
+import type {Selection} from './selection.js';
+
+/**
+ * Represents a segment of text to render with specific styling.
+ */
+export type Segment = {
+	text: string;
+	start: number;
+	end: number;
+	isCursor: boolean;
+	isSelected: boolean;
+	/**
+	 * Whether the segment is part of just pasted text, see the `highlightPastedText` prop.
+	 */
+	isPasted: boolean;
+	decorations: Decoration[];
+	/**
+	 * Syntax highlighting tokens covering the segment, outer tokens first.
+	 */
+	tokens: TokenRange[];
+};
+
+export type SegmentOptions = {
+	cursorOffset: number;
+	showCursor: boolean;
+	selection?: Selection;
+	decorations?: Decoration[];
+	pastedRange?: Selection;
+	/**
+	 * Syntax highlighting tokens of the whole value. Tokens that start at the
+	 * same offset are outer tokens first.
+	 */
+	tokens?: TokenRange[];
+};
+
+function isWithin(start: number, end: number, range?: Selection): boolean {
+	return Boolean(range && start >= range.start && end <= range.end);
+}
+
+/**
+ * Creates segments of text based on cursor position, selection, pasted text,
+ * decorations and syntax highlighting tokens. Each segment has a unique
+ * combination of styling needs. Tokens come from tokenizing the whole value
+ * once, so a token split by the cursor or a decoration keeps its style.
+ */
+export function createSegments(
+	value: string,
+	{
+		cursorOffset,
+		showCursor,
+		selection,
+		decorations = [],
+		pastedRange,
+		tokens = [],
+	}: SegmentOptions,
+): Segment[] {
+	// Clamp decorations to valid bounds and widen them to whole graphemes
+	const clampedDecorations = decorations.map(dec => ({
+		...dec,
+		start: snapToGrapheme(value, dec.start, 'start'),
+		end: snapToGrapheme(value, dec.end, 'end'),
+	}));
+	const cursorEnd = getNextGraphemeOffset(value, cursorOffset);
+
+	// Collect all split points
+	const splitPoints = new Set<number>([0, value.length]);
+
+	// Add cursor position as split point
+	if (showCursor) {
+		splitPoints.add(cursorOffset);
+		splitPoints.add(cursorEnd);
+	}
+
+	// Add selection and pasted text boundaries
+	for (const range of [selection, pastedRange]) {
+		if (range) {
+			splitPoints.add(range.start);
+			splitPoints.add(range.end);
+		}
+	}
+
+	// Add decoration and token boundaries
+	for (const range of [...clampedDecorations, ...tokens]) {
+		if (range.start < range.end) {
+			splitPoints.add(range.start);
+			splitPoints.add(range.end);
+		}
+	}
+
+	// Sort and filter valid points
+	const points = [...splitPoints]
+		.sort((a, b) => a - b)
+		.filter(p => p >= 0 && p <= value.length);
+
+	// Create segments, tracking tokens that cover the current segment
+	// while sweeping through the value, since there can be many of them
+	const segments: Segment[] = [];
+	// The sort is stable, so tokens starting together stay outer tokens first
+	const sortedTokens = [...tokens].sort((a, b) => a.start - b.start);
+	let activeTokens: TokenRange[] = [];
+	let nextTokenIndex = 0;
+
+	for (let i = 0; i < points.length - 1; i++) {
+		const start = points[i]!;
+		const end = points[i + 1]!;
+		const text = value.slice(start, end);
+		const isCursor = showCursor && start === cursorOffset && end === cursorEnd;
+
+		// Find decorations that overlap with this segment
+		const appliedDecorations = clampedDecorations.filter(
+			dec => dec.start < end && dec.end > start,
+		);
+
+		const startingTokens: TokenRange[] = [];
+
+		while (
+			nextTokenIndex < sortedTokens.length &&
+			sortedTokens[nextTokenIndex]!.start < end
+		) {
+			startingTokens.push(sortedTokens[nextTokenIndex]!);
+			nextTokenIndex++;
+		}
+
+		// Segments keep their own list, so it's never changed afterwards
+		activeTokens = [...activeTokens, ...startingTokens].filter(
+			token => token.end > start,
+		);
+
+		segments.push({
+			text,
+			start,
+			end,
+			isCursor,
+			isSelected: isWithin(start, end, selection),
+			isPasted: isWithin(start, end, pastedRange),
+			decorations: appliedDecorations,
+			tokens: activeTokens,
+		});
+	}
+
+	return segments;
+}
@@ -0,0 +1,25 @@
+/**
+ * Range of selected text. `start` is inclusive and `end` is exclusive.
+ */
+export type Selection = {
+	start: number;
+	end: number;
+};
+
+/**
+ * Returns the range between the selection anchor and the cursor,
+ * or `undefined` when nothing is selected.
+ */
+export function getSelection(
+	selectionAnchor: number | undefined,
+	cursorOffset: number,
+): Selection | undefined {
+	if (selectionAnchor === undefined || selectionAnchor === cursorOffset) {
+		return undefined;
+	}
+
+	return {
+		start: Math.min(selectionAnchor, cursorOffset),
+		end: Math.max(selectionAnchor, cursorOffset),
+	};
+}
@@ -0,0 +1,232 @@
+import {mapOffset, mapRange, type TextEdit} from './changes.js';
+import type {EditorState} from './commands.js';
+import type {Selection} from './selection.js';
+
+/**
+ * Snippet with its tab stops resolved, e.g. `INSERT INTO ${1:table} VALUES ($2)`
+ * becomes the text `INSERT INTO table VALUES ()` with a field for each tab stop.
+ */
+export type Snippet = {
+	text: string;
+	/**
+	 * Ranges of the text each field covers, in tab order. A field has several
+	 * ranges when its tab stop is repeated. The last field is where the cursor
+	 * ends up, `$0` or the end of the text.
+	 */
+	fields: Selection[][];
+};
+
+/**
+ * Inserted snippet whose fields are being filled in.
+ */
+export type SnippetSession = {
+	/**
+	 * Ranges of each field in the value, in tab order.
+	 */
+	fields: Selection[][];
+	/**
+	 * Index of the field being filled in.
+	 */
+	index: number;
+};
+
+type TabStop = {
+	index: number;
+	placeholder?: string;
+};
+
+// `$1`, `${1}` or `${1:placeholder}`, where `\$`, `\}` and `\\` are escapes
+const snippetPattern =
+	/\\([$}\\])|\$(\d+)|\${(\d+)(?::((?:\\[$}\\]|[^}])*))?}/g;
+
+function unescape(text: string): string {
+	return text.replaceAll(/\\([$}\\])/g, '$1');
+}
+
+/**
+ * Parses tab stops (`$1`, `${1}`), placeholders (`${1:table}`) and the final
+ * cursor position (`$0`) in `snippet`. Repeated tab stops mirror each other,
+ * and all of them show the first placeholder given for it.
+ */
+export function parseSnippet(snippet: string): Snippet {
+	const parts: Array<string | TabStop> = [];
+	let lastIndex = 0;
+
+	for (const match of snippet.matchAll(snippetPattern)) {
+		const [, escaped, index, bracedIndex, placeholder] = match;
+
+		parts.push(
+			snippet.slice(lastIndex, match.index),
+			escaped ?? {
+				index: Number(index ?? bracedIndex),
+				placeholder:
+					placeholder === undefined ? undefined : unescape(placeholder),
+			},
+		);
+		lastIndex = match.index + match[0].length;
+	}
+
+	parts.push(snippet.slice(lastIndex));
+
+	const placeholders = new Map<number, string>();
+
+	for (const part of parts) {
+		if (
+			typeof part !== 'string' &&
+			part.placeholder !== undefined &&
+			!placeholders.has(part.index)
+		) {
+			placeholders.set(part.index, part.placeholder);
+		}
+	}
+
+	let text = '';
+	const ranges = new Map<number, Selection[]>();
+
+	for (const part of parts) {
+		if (typeof part === 'string') {
+			text += part;
+			continue;
+		}
+
+		const start = text.length;
+		text += placeholders.get(part.index) ?? '';
+		ranges.set(part.index, [
+			...(ranges.get(part.index) ?? []),
+			{start, end: text.length},
+		]);
+	}
+
+	const indexes = [...ranges.keys()]
+		.filter(index => index > 0)
+		.sort((a, b) => a - b);
+
+	return {
+		text,
+		fields: [
+			...indexes.map(index => ranges.get(index) ?? []),
+			ranges.get(0) ?? [{start: text.length, end: text.length}],
+		],
+	};
+}
+
+/**
+ * Moves the ranges of `session` along with `change`. Text inserted at the edges
+ * of a range is left out of it, except for `range`, the one that was edited.
+ */
+function mapSession(
+	session: SnippetSession,
+	change: TextEdit,
+	range: Selection,
+): SnippetSession {
+	return {
+		...session,
+		fields: session.fields.map(field =>
+			field.map(fieldRange =>
+				fieldRange === range
+					? {
+							start: range.start,
+							end:
+								range.end +
+								change.text.length -
+								(change.range.end - change.range.start),
+						}
+					: (mapRange(fieldRange, change) ?? {
+							start: change.range.start,
+							end: change.range.start,
+						}),
+			),
+		),
+	};
+}
+
+/**
+ * Copies `edits` made in the current field of `session` to its other ranges,
+ * so mirrored tab stops update together. Returns the resulting state, session
+ * and edits including the copies, or `undefined` when an edit was made outside
+ * of the field, which ends the session.
+ */
+export function mirrorSnippetEdit(
+	session: SnippetSession,
+	state: EditorState,
+	edits: TextEdit[],
+):
+	{state: EditorState; session: SnippetSession; edits: TextEdit[]} | undefined {
+	const field = session.fields[session.index] ?? [];
+	let nextSession = session;
+	let editedIndex: number | undefined;
+
+	for (const edit of edits) {
+		const ranges = nextSession.fields[session.index] ?? [];
+		const index = ranges.findIndex(
+			range => edit.range.start >= range.start && edit.range.end <= range.end,
+		);
+
+		if (index === -1) {
+			return undefined;
+		}
+
+		editedIndex = index;
+		nextSession = mapSession(nextSession, edit, ranges[index]!);
+	}
+
+	if (editedIndex === undefined) {
+		return undefined;
+	}
+
+	const {start, end} = nextSession.fields[session.index]![editedIndex]!;
+	const text = state.value.slice(start, end);
+	const mirrorEdits: TextEdit[] = [];
+	let nextState = state;
+
+	for (const index of field.keys()) {
+		const mirror = nextSession.fields[session.index]![index]!;
+
+		if (index === editedIndex) {
+			continue;
+		}
+
+		const mirrorChange = {range: mirror, text};
+		const {value, cursorOffset, selectionAnchor} = nextState;
+
+		nextState = {
+			...nextState,
+			value: value.slice(0, mirror.start) + text + value.slice(mirror.end),
+			cursorOffset: mapOffset(cursorOffset, mirrorChange, 'start'),
+			selectionAnchor:
+				selectionAnchor === undefined
+					? undefined
+					: mapOffset(selectionAnchor, mirrorChange, 'start'),
+		};
+		nextSession = mapSession(nextSession, mirrorChange, mirror);
+		mirrorEdits.push(mirrorChange);
+	}
+
+	return {
+		state: nextState,
+		session: nextSession,
+		edits: [...edits, ...mirrorEdits],
+	};
+}
+
+/**
+ * Selects the first range of the field at `index`, which is where the cursor
+ * goes when the session reaches it.
+ */
+export function selectSnippetField(
+	state: EditorState,
+	session: SnippetSession,
+	index: number,
+): EditorState {
+	const {start, end} = session.fields[index]?.[0] ?? {
+		start: state.cursorOffset,
+		end: state.cursorOffset,
+	};
+
+	return {
+		value: state.value,
+		cursorOffset: end,
+		cursorWidth: 0,
+		selectionAnchor: start === end ? undefined : start,
+	};
+}
@@ -0,0 +1,297 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type {CommandContext, CommandResult} from './commands.js';
+import {getPreviousGraphemeOffset} from './graphemes.js';
+import type {Snapshot} from './undo.js';
+
+/**
+ * Submitted values that can be recalled with up/down arrows and searched with `Ctrl+R`.
+ */
+export type HistoryStore = {
+	/**
+	 * Returns the entries, oldest first.
+	 */
+	getEntries: () => readonly string[];
+	/**
+	 * Adds a submitted value. Blank values are ignored.
+	 */
+	add: (entry: string) => void;
+};
+
+export type HistoryStoreOptions = {
+	/**
+	 * Entries to start with, oldest first. They are added after the entries loaded from `file`.
+	 */
+	entries?: string[];
+	/**
+	 * File to load the history from and save it to after every submission.
+	 */
+	file?: string;
+	/**
+	 * Format of `file`: a JSON array, or one JSON string per line.
+	 * Defaults to `'json'` for files ending in `.json`, `'ndjson'` otherwise.
+	 */
+	format?: 'json' | 'ndjson';
+	/**
+	 * Maximum number of entries, the oldest ones are dropped first.
+	 */
+	maxSize?: number;
+	/**
+	 * Remove older copies of an entry when it's submitted again.
+	 */
+	dedupe?: boolean;
+};
+
+/**
+ * Position while moving through the history with up/down arrows.
+ */
+export type HistoryPosition = {
+	/**
+	 * Index of the shown entry, the number of entries when the draft is shown.
+	 */
+	index: number;
+	/**
+	 * Value that was being edited before moving into the history.
+	 */
+	draft: string;
+};
+
+/**
+ * State of a reverse incremental search started with `Ctrl+R`.
+ */
+export type HistorySearch = {
+	query: string;
+	/**
+	 * Index of the shown entry, `undefined` before anything was found.
+	 */
+	matchIndex?: number;
+	/**
+	 * Whether the query doesn't match any entry older than the shown one.
+	 */
+	isFailing: boolean;
+	/**
+	 * Value before the search started, restored when it's cancelled.
+	 */
+	original: Snapshot;
+};
+
+function parseHistory(content: string, format: 'json' | 'ndjson'): string[] {
+	if (format === 'json') {
+		const entries: unknown = JSON.parse(content);
+
+		return Array.isArray(entries)
+			? entries.filter(entry => typeof entry === 'string')
+			: [];
+	}
+
+	// Lines that aren't JSON strings are taken as they are, like in shell history files
+	return content
+		.split('\n')
+		.filter(line => line.trim() !== '')
+		.map(line => {
+			try {
+				const entry: unknown = JSON.parse(line);
+				return typeof entry === 'string' ? entry : line;
+			} catch {
+				return line;
+			}
+		});
+}
+
+function serializeHistory(
+	entries: readonly string[],
+	format: 'json' | 'ndjson',
+): string {
+	return format === 'json'
+		? JSON.stringify(entries, undefined, '\t') + '\n'
+		: entries.map(entry => JSON.stringify(entry) + '\n').join('');
+}
+
+function readHistoryFile(file: string, format: 'json' | 'ndjson'): string[] {
+	try {
+		return parseHistory(fs.readFileSync(file, 'utf8'), format);
+	} catch (error) {
+		if (
+			error instanceof SyntaxError ||
+			(error as NodeJS.ErrnoException).code === 'ENOENT'
+		) {
+			return [];
+		}
+
+		throw error;
+	}
+}
+
+/**
+ * Creates a history that `TextInput` adds submitted values to.
+ * A history file is read once, and rewritten after every submission.
+ * A corrupt file starts an empty history and errors while writing it are
+ * ignored, so neither a broken file nor a read-only home directory breaks
+ * the input.
+ */
+export function createHistoryStore({
+	entries: initialEntries = [],
+	file,
+	format = file?.endsWith('.json') ? 'json' : 'ndjson',
+	maxSize = 500,
+	dedupe = true,
+}: HistoryStoreOptions = {}): HistoryStore {
+	const addEntry = (entries: readonly string[], entry: string) =>
+		[
+			...(dedupe ? entries.filter(existing => existing !== entry) : entries),
+			entry,
+		].slice(-maxSize);
+
+	let entries: readonly string[] = [];
+
+	for (const entry of [
+		...(file ? readHistoryFile(file, format) : []),
+		...initialEntries,
+	]) {
+		entries = addEntry(entries, entry);
+	}
+
+	return {
+		getEntries: () => entries,
+		add(entry) {
+			if (entry.trim() === '') {
+				return;
+			}
+
+			entries = addEntry(entries, entry);
+
+			if (file) {
+				try {
+					fs.mkdirSync(path.dirname(file), {recursive: true});
+					fs.writeFileSync(file, serializeHistory(entries, format));
+				} catch {}
+			}
+		},
+	};
+}
+
+/**
+ * Returns the index of the newest entry before `before` that contains `query`.
+ */
+function findEntry(
+	entries: readonly string[],
+	query: string,
+	before: number,
+): number | undefined {
+	for (let index = Math.min(before, entries.length) - 1; index >= 0; index--) {
+		if (entries[index]!.includes(query)) {
+			return index;
+		}
+	}
+
+	return undefined;
+}
+
+function showEntry(
+	context: CommandContext,
+	value: string,
+	cursorOffset: number,
+): CommandResult {
+	return {
+		state: {value, cursorOffset, cursorWidth: 0},
+		editKind: 'history',
+		edits: [{range: {start: 0, end: context.state.value.length}, text: value}],
+		completionMenu: {selectedIndex: 0, isDismissed: true},
+	};
+}
+
+/**
+ * Starts a reverse incremental search.
+ */
+export function startHistorySearch(context: CommandContext): HistorySearch {
+	const {value, cursorOffset} = context.state;
+
+	return {query: '', isFailing: false, original: {value, cursorOffset}};
+}
+
+/**
+ * Handles a keypress during a reverse incremental search. Typing extends the query,
+ * `Ctrl+R` finds an older match, `Enter` accepts the shown entry and `Escape`
+ * or `Ctrl+G` restore the value from before the search. Other keys accept the
+ * entry and are handled as usual, which is when `isHandled` is false.
+ */
+export function handleHistorySearchKey(
+	search: HistorySearch,
+	context: CommandContext,
+	input: string,
+	chord: string | undefined,
+): {search?: HistorySearch; result?: CommandResult; isHandled: boolean} {
+	const {historyEntries: entries} = context;
+
+	const find = (query: string, before: number) => {
+		if (query === '') {
+			return {
+				search: {...search, query, matchIndex: undefined, isFailing: false},
+				result: showEntry(
+					context,
+					search.original.value,
+					search.original.cursorOffset,
+				),
+				isHandled: true,
+			};
+		}
+
+		const matchIndex = findEntry(entries, query, before);
+
+		if (matchIndex === undefined) {
+			return {search: {...search, query, isFailing: true}, isHandled: true};
+		}
+
+		const entry = entries[matchIndex]!;
+
+		return {
+			search: {...search, query, matchIndex, isFailing: false},
+			result: showEntry(context, entry, entry.indexOf(query)),
+			isHandled: true,
+		};
+	};
+
+	if (chord === undefined) {
+		// The shown entry still matches when the query gets longer
+		return find(
+			search.query + input,
+			(search.matchIndex ?? entries.length - 1) + 1,
+		);
+	}
+
+	switch (chord) {
+		case 'backspace': {
+			return find(
+				search.query.slice(
+					0,
+					getPreviousGraphemeOffset(search.query, search.query.length),
+				),
+				entries.length,
+			);
+		}
+
+		case 'ctrl+r': {
+			return find(search.query, search.matchIndex ?? entries.length);
+		}
+
+		case 'escape':
+		case 'ctrl+g': {
+			return {
+				result: showEntry(
+					context,
+					search.original.value,
+					search.original.cursorOffset,
+				),
+				isHandled: true,
+			};
+		}
+
+		case 'enter': {
+			return {isHandled: true};
+		}
+
+		default: {
+			return {isHandled: false};
+		}
+	}
+}
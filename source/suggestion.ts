@@ -0,0 +1,97 @@
+import type {Selection} from './selection.js';
+import {parseSnippet, type Snippet} from './snippets.js';
+import {findIdentifierStart} from './words.js';
+
+/**
+ * The word being typed: the identifier right before the cursor.
+ */
+export type Token = Selection & {
+	text: string;
+};
+
+/**
+ * Suggested replacement for a range of the value.
+ */
+export type Suggestion = {
+	/**
+	 * Text that replaces `range`.
+	 */
+	text: string;
+	/**
+	 * Range to replace. Defaults to the token being typed.
+	 */
+	range?: Selection;
+	/**
+	 * Whether `text` is a snippet with tab stops like `${1:table}`.
+	 */
+	isSnippet?: boolean;
+};
+
+/**
+ * Suggestion that can be shown at the cursor.
+ */
+export type ResolvedSuggestion = {
+	range: Selection;
+	text: string;
+	/**
+	 * Part of `text` that hasn't been typed yet, shown after the cursor.
+	 */
+	ghostText: string;
+	/**
+	 * Snippet that `text` was expanded from, when the suggestion is one.
+	 */
+	snippet?: Snippet;
+};
+
+/**
+ * Returns the token that ends at the cursor, which is empty when
+ * the cursor isn't right after an identifier.
+ */
+export function getToken(value: string, cursorOffset: number): Token {
+	const start = findIdentifierStart(value, cursorOffset);
+
+	return {start, end: cursorOffset, text: value.slice(start, cursorOffset)};
+}
+
+/**
+ * Resolves the range a suggestion replaces and its ghost text, expanding snippets.
+ * A string suggests the whole value and is only shown when the cursor is at the end.
+ * Returns `undefined` when the suggestion doesn't continue the text typed before
+ * the cursor or has nothing to add.
+ */
+export function resolveSuggestion(
+	suggestion: string | Suggestion,
+	value: string,
+	cursorOffset: number,
+): ResolvedSuggestion | undefined {
+	if (typeof suggestion === 'string' && cursorOffset !== value.length) {
+		return undefined;
+	}
+
+	const {
+		text: suggestedText,
+		range = getToken(value, cursorOffset),
+		isSnippet = false,
+	} = typeof suggestion === 'string'
+		? {text: suggestion, range: {start: 0, end: value.length}}
+		: suggestion;
+	const snippet = isSnippet ? parseSnippet(suggestedText) : undefined;
+	const text = snippet?.text ?? suggestedText;
+
+	if (range.start > cursorOffset || range.end < cursorOffset) {
+		return undefined;
+	}
+
+	const typedText = value.slice(range.start, cursorOffset);
+
+	if (!text.startsWith(typedText) || text.length === typedText.length) {
+		return undefined;
+	}
+
+	return {
+		range: {start: range.start, end: range.end},
+		text,
+		ghostText: text.slice(typedText.length),
+		snippet,
+	};
+}
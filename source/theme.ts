@@ -0,0 +1,175 @@
+import process from 'node:process';
+import type {TextProps} from 'ink';
+import type {DecorationStyle} from './decorations.js';
+
+/**
+ * Ink `Text` props used to draw a part of the editor.
+ */
+export type Style = Partial<TextProps>;
+
+/**
+ * Styles of the editor. Each style is merged over the default one,
+ * so a theme only needs to list what it changes.
+ */
+export type Theme = {
+	/**
+	 * Styles of token types returned by the tokenizer, e.g. `keyword` or `string`.
+	 */
+	tokens?: Record<string, Style>;
+	cursor?: Style;
+	selection?: Style;
+	placeholder?: Style;
+	ghostText?: Style;
+	/**
+	 * Style of the bracket next to the cursor and its match, see the `matchBrackets` prop.
+	 */
+	matchingBracket?: Style;
+	/**
+	 * Style of matches in the find bar, and of the match the cursor is on.
+	 */
+	findMatch?: Style;
+	currentFindMatch?: Style;
+	/**
+	 * Styles of decoration presets.
+	 */
+	decorations?: Partial<Record<DecorationStyle, Style>>;
+};
+
+export type ResolvedTheme = {
+	tokens: Record<string, Style>;
+	cursor: Style;
+	selection: Style;
+	placeholder: Style;
+	ghostText: Style;
+	matchingBracket: Style;
+	findMatch: Style;
+	currentFindMatch: Style;
+	decorations: Record<DecorationStyle, Style>;
+};
+
+/**
+ * Colors matching the default theme of `cli-highlight`.
+ */
+/* eslint-disable @typescript-eslint/naming-convention */
+export const defaultTheme: ResolvedTheme = {
+	tokens: {
+		keyword: {color: 'blue'},
+		built_in: {color: 'cyan'},
+		type: {color: 'cyan', dimColor: true},
+		literal: {color: 'blue'},
+		number: {color: 'green'},
+		regexp: {color: 'red'},
+		string: {color: 'red'},
+		'title.class': {color: 'blue'},
+		'title.function': {color: 'yellow'},
+		comment: {color: 'green'},
+		doctag: {color: 'green'},
+		meta: {color: 'grey'},
+		tag: {color: 'grey'},
+		name: {color: 'blue'},
+		attr: {color: 'cyan'},
+		emphasis: {italic: true},
+		strong: {bold: true},
+		link: {underline: true},
+		addition: {color: 'green'},
+		deletion: {color: 'red'},
+	},
+	cursor: {inverse: true},
+	selection: {backgroundColor: 'blue'},
+	placeholder: {color: 'grey'},
+	ghostText: {dimColor: true},
+	matchingBracket: {backgroundColor: 'gray'},
+	findMatch: {backgroundColor: 'yellow'},
+	currentFindMatch: {backgroundColor: 'magenta'},
+	decorations: {
+		error: {color: 'red', underline: true},
+		warning: {color: 'yellow', underline: true},
+		info: {color: 'blue', underline: true},
+		highlight: {backgroundColor: 'yellow'},
+	},
+};
+
+/**
+ * Theme without colors, used when the `NO_COLOR` environment variable is set.
+ */
+export const monochromeTheme: ResolvedTheme = {
+	tokens: {
+		keyword: {bold: true},
+		built_in: {bold: true},
+		literal: {bold: true},
+		'title.class': {bold: true},
+		comment: {dimColor: true},
+		doctag: {dimColor: true},
+		meta: {dimColor: true},
+		emphasis: {italic: true},
+		strong: {bold: true},
+		link: {underline: true},
+	},
+	cursor: {inverse: true},
+	selection: {inverse: true},
+	placeholder: {dimColor: true},
+	ghostText: {dimColor: true},
+	matchingBracket: {underline: true},
+	findMatch: {underline: true},
+	currentFindMatch: {bold: true, underline: true},
+	decorations: {
+		error: {bold: true, underline: true},
+		warning: {underline: true},
+		info: {underline: true},
+		highlight: {inverse: true},
+	},
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+function withoutColors({color, backgroundColor, ...style}: Style): Style {
+	return style;
+}
+
+function keepColors(style: Style): Style {
+	return style;
+}
+
+function mergeStyleMaps<Key extends string>(
+	base: Record<Key, Style>,
+	overrides: Partial<Record<Key, Style>> | undefined,
+	transform: (style: Style) => Style,
+): Record<Key, Style> {
+	const merged = {...base};
+	const entries = Object.entries(overrides ?? {}) as Array<[Key, Style]>;
+
+	for (const [key, style] of entries) {
+		merged[key] = {...base[key], ...transform(style)};
+	}
+
+	return merged;
+}
+
+/**
+ * Merges `theme` over the default theme. When `NO_COLOR` is set, the monochrome
+ * theme is used instead and colors of `theme` are ignored, unless `FORCE_COLOR`
+ * is set too. See https://no-color.org.
+ */
+export function resolveTheme(theme: Theme = {}): ResolvedTheme {
+	const isMonochrome =
+		Boolean(process.env['NO_COLOR']) && !process.env['FORCE_COLOR'];
+	const base = isMonochrome ? monochromeTheme : defaultTheme;
+	const transform = isMonochrome ? withoutColors : keepColors;
+
+	return {
+		tokens: mergeStyleMaps(base.tokens, theme.tokens, transform),
+		cursor: {...base.cursor, ...transform(theme.cursor ?? {})},
+		selection: {...base.selection, ...transform(theme.selection ?? {})},
+		placeholder: {...base.placeholder, ...transform(theme.placeholder ?? {})},
+		ghostText: {...base.ghostText, ...transform(theme.ghostText ?? {})},
+		matchingBracket: {
+			...base.matchingBracket,
+			...transform(theme.matchingBracket ?? {}),
+		},
+		findMatch: {...base.findMatch, ...transform(theme.findMatch ?? {})},
+		currentFindMatch: {
+			...base.currentFindMatch,
+			...transform(theme.currentFindMatch ?? {}),
+		},
+		decorations: mergeStyleMaps(base.decorations, theme.decorations, transform),
+	};
+}
@@ -0,0 +1,157 @@
+import {applyEdits, invertEdits, type TextEdit} from './changes.js';
+
+/**
+ * State of the editor that is saved and restored by undo/redo.
+ */
+export type Snapshot = {
+	value: string;
+	cursorOffset: number;
+};
+
+/**
+ * What kind of edit produced a new value.
+ * Consecutive `insert`, `delete` and `history` edits are coalesced into a single
+ * undo step, so undo after browsing the submission history restores the draft.
+ * `undo` and `redo` move through the history instead of being recorded in it.
+ */
+export type EditKind =
+	| 'insert'
+	| 'delete'
+	| 'newline'
+	| 'paste'
+	| 'cut'
+	| 'suggestion'
+	| 'command'
+	| 'history'
+	| 'undo'
+	| 'redo';
+
+/**
+ * Snapshot on one side of an undo step, with the edits that turn it into the
+ * state on the other side.
+ */
+export type UndoStep = Snapshot & {edits: TextEdit[]};
+
+export type UndoHistory = {
+	/**
+	 * Snapshots before each undoable edit, oldest first.
+	 */
+	past: UndoStep[];
+	/**
+	 * Snapshots that were undone, most recently undone last.
+	 */
+	future: UndoStep[];
+	/**
+	 * Last recorded edit and the state it produced, used to decide whether
+	 * the next edit continues it.
+	 */
+	lastEdit?: {kind: EditKind} & Snapshot;
+};
+
+/**
+ * Maximum number of undo steps kept in the history.
+ */
+const maxEntries = 100;
+
+export const emptyHistory: UndoHistory = {past: [], future: []};
+
+/**
+ * Records an edit that turned `before` into `after` with `before.edits`.
+ * The edit extends the previous undo step when it is of the same coalescable
+ * kind and starts exactly where the previous one left off.
+ */
+export function recordEdit(
+	history: UndoHistory,
+	before: UndoStep,
+	after: Snapshot,
+	kind: EditKind,
+): UndoHistory {
+	const {lastEdit} = history;
+	const lastStep = history.past.at(-1);
+	const continuesLastEdit =
+		(kind === 'insert' || kind === 'delete' || kind === 'history') &&
+		lastEdit?.kind === kind &&
+		lastEdit.value === before.value &&
+		lastEdit.cursorOffset === before.cursorOffset;
+
+	return {
+		past:
+			continuesLastEdit && lastStep
+				? [
+						...history.past.slice(0, -1),
+						{...lastStep, edits: [...lastStep.edits, ...before.edits]},
+					]
+				: [...history.past, before].slice(-maxEntries),
+		future: [],
+		lastEdit: {kind, ...after},
+	};
+}
+
+/**
+ * Stops the next edit from being merged into the previous undo step,
+ * e.g. after the cursor was moved.
+ */
+export function breakCoalescing(history: UndoHistory): UndoHistory {
+	return history.lastEdit ? {...history, lastEdit: undefined} : history;
+}
+
+/**
+ * Returns the edits that turn `current` back into the snapshot of `step`.
+ * When the value was changed from outside since the step was recorded,
+ * the whole value is replaced.
+ */
+function getStepEdits(step: UndoStep, current: Snapshot): TextEdit[] {
+	return applyEdits(step.value, step.edits) === current.value
+		? invertEdits(step.value, step.edits)
+		: [{range: {start: 0, end: current.value.length}, text: step.value}];
+}
+
+/**
+ * Steps back in history, with the edits that restore the snapshot.
+ * Returns `undefined` when there is nothing to undo.
+ */
+export function undo(
+	history: UndoHistory,
+	current: Snapshot,
+): {history: UndoHistory; snapshot: Snapshot; edits: TextEdit[]} | undefined {
+	const step = history.past.at(-1);
+	if (!step) {
+		return undefined;
+	}
+
+	const edits = getStepEdits(step, current);
+
+	return {
+		history: {
+			past: history.past.slice(0, -1),
+			future: [...history.future, {...current, edits}],
+		},
+		snapshot: {value: step.value, cursorOffset: step.cursorOffset},
+		edits,
+	};
+}
+
+/**
+ * Steps forward in history, with the edits that restore the snapshot.
+ * Returns `undefined` when there is nothing to redo.
+ */
+export function redo(
+	history: UndoHistory,
+	current: Snapshot,
+): {history: UndoHistory; snapshot: Snapshot; edits: TextEdit[]} | undefined {
+	const step = history.future.at(-1);
+	if (!step) {
+		return undefined;
+	}
+
+	const edits = getStepEdits(step, current);
+
+	return {
+		history: {
+			past: [...history.past, {...current, edits}],
+			future: history.future.slice(0, -1),
+		},
+		snapshot: {value: step.value, cursorOffset: step.cursorOffset},
+		edits,
+	};
+}
@@ -0,0 +1,771 @@
+import {useEffect, useMemo, useReducer, useRef} from 'react';
+import {useStdout} from 'ink';
+import {findMatchingBrackets} from './brackets.js';
+import type {TextChange} from './changes.js';
+import {
+	getCompletion,
+	type Completion,
+	type CompletionItem,
+} from './completion.js';
+import type {Decoration} from './decorations.js';
+import {getDiagnosticDecoration, type Diagnostic} from './diagnostics.js';
+import {
+	createEditorState,
+	updateEditor,
+	type CodeEditorState,
+	type EditorAction,
+	type EditorEvent,
+	type EditorOptions,
+	type UndoState,
+} from './editor.js';
+import {
+	findMatches,
+	getCurrentMatchIndex,
+	type FindMatch,
+	type FindState,
+} from './find.js';
+import {snapToGrapheme} from './graphemes.js';
+import {tokenize, type TokenRange, type Tokenizer} from './highlight.js';
+import type {Keymap, SubmitKey} from './keymap.js';
+import {createSegments, type Segment} from './segments.js';
+import {getSelection, type Selection} from './selection.js';
+import type {HistoryStore} from './submission-history.js';
+import {
+	getToken,
+	resolveSuggestion,
+	type ResolvedSuggestion,
+	type Suggestion,
+	type Token,
+} from './suggestion.js';
+import {resolveTheme, type ResolvedTheme, type Theme} from './theme.js';
+import {
+	useProviderResult,
+	type ProviderOptions,
+} from './use-provider-result.js';
+import {useMappedDecorations} from './use-mapped-decorations.js';
+import type {VimMode} from './vim.js';
+
+/**
+ * Options passed to `getSuggestion`.
+ */
+export type SuggestionOptions = ProviderOptions & {
+	cursorOffset: number;
+	/**
+	 * Identifier being typed right before the cursor, empty when there is none.
+	 */
+	token: Token;
+};
+
+type SuggestionResult = string | Suggestion | undefined;
+
+function isHistoryEntries(
+	history: readonly string[] | HistoryStore,
+): history is readonly string[] {
+	return Array.isArray(history);
+}
+
+function getHistoryEntries(
+	history: readonly string[] | HistoryStore | undefined,
+): readonly string[] {
+	if (!history) {
+		return [];
+	}
+
+	return isHistoryEntries(history) ? history : history.getEntries();
+}
+
+/**
+ * Options of `useCodeEditor()`, which are also props of `TextInput`.
+ */
+export type CodeEditorOptions = {
+	/**
+	 * Listen to user's input. Useful in case there are multiple input components
+	 * at the same time and input must be "routed" to a specific component.
+	 * Defaults to `true`, or to whether Ink's focus is on the input when `focusId` is set.
+	 */
+	readonly focus?: boolean;
+
+	/**
+	 * Replace all chars and mask the value. Useful for password inputs.
+	 */
+	readonly mask?: string;
+
+	/**
+	 * Whether to show cursor and allow navigation inside text input with arrow keys.
+	 */
+	readonly showCursor?: boolean;
+
+	/**
+	 * Highlight pasted text
+	 */
+	readonly highlightPastedText?: boolean;
+
+	/**
+	 * Value to display in a text input.
+	 */
+	readonly value: string;
+
+	/**
+	 * Function to call when value updates. The second argument describes the edit:
+	 * the replaced range of the previous value, the inserted text and what caused it.
+	 */
+	readonly onChange: (value: string, change: TextChange) => void;
+
+	/**
+	 * Function to call when `Enter` is pressed, where first argument is a value of the input.
+	 */
+	readonly onSubmit?: (value: string) => void;
+
+	/**
+	 * Allow editing multiple lines. `Enter` inserts a new line, `submitKey` submits
+	 * and up/down arrows move between lines.
+	 */
+	readonly multiline?: boolean;
+
+	/**
+	 * Key chord that submits the value in multi-line mode.
+	 * When set to `'enter'`, `Ctrl+Enter` and `Meta+Enter` insert a new line instead.
+	 */
+	readonly submitKey?: SubmitKey;
+
+	/**
+	 * Function to call when undo or redo becomes available or unavailable.
+	 * Undo with `Ctrl+Z`, redo with `Ctrl+Y` or `Ctrl+Shift+Z`.
+	 */
+	readonly onUndoStateChange?: (state: UndoState) => void;
+
+	/**
+	 * Offset of the cursor in `value`. Pass it together with `onCursorChange` to control the cursor.
+	 */
+	readonly cursorOffset?: number;
+
+	/**
+	 * Cursor to place when `value` is changed from outside, e.g. where a formatter
+	 * reports the cursor ends up, instead of moving the cursor through the change.
+	 * Pass it in the same render as the new value.
+	 */
+	readonly externalCursor?: {cursorOffset: number; selectionAnchor?: number};
+
+	/**
+	 * Function to call when the cursor moves, with its new offset.
+	 */
+	readonly onCursorChange?: (cursorOffset: number) => void;
+
+	/**
+	 * Function to call when the selected range changes, or `undefined` when nothing is selected.
+	 * Select text with `Shift` and arrow, `Home` or `End` keys.
+	 */
+	readonly onSelectionChange?: (selection: Selection | undefined) => void;
+
+	/**
+	 * Also send copied and cut text to the terminal with the OSC 52 escape sequence,
+	 * so it's placed on the system clipboard in terminals that support it.
+	 */
+	readonly systemClipboard?: boolean;
+
+	/**
+	 * Custom key bindings, merged over the default keymap.
+	 * Maps key chords (e.g. `'ctrl+s'`) to editor commands, lists of commands or custom handlers.
+	 * Bind a chord to `null` to remove its default binding.
+	 */
+	readonly keymap?: Keymap;
+
+	/**
+	 * Enable Vim-style modal editing. Editing starts in insert mode,
+	 * `Escape` switches to normal mode.
+	 */
+	readonly vimMode?: boolean;
+
+	/**
+	 * Function to call when the Vim mode changes between `'insert'`, `'normal'` and `'visual'`.
+	 */
+	readonly onVimModeChange?: (mode: VimMode) => void;
+
+	/**
+	 * Language for syntax highlighting (e.g., 'sql', 'javascript', 'python').
+	 * When not specified, no syntax highlighting is applied.
+	 */
+	readonly language?: string;
+
+	/**
+	 * Function that splits the value into typed token ranges for syntax highlighting,
+	 * used instead of the built-in highlighter for `language`.
+	 */
+	readonly tokenizer?: Tokenizer;
+
+	/**
+	 * Styles of token types, the cursor, selection, placeholder, ghost text and
+	 * decoration presets, merged over the default theme.
+	 * When the `NO_COLOR` environment variable is set, a monochrome theme is used
+	 * and colors are ignored.
+	 */
+	readonly theme?: Theme;
+
+	/**
+	 * Function that returns an autocomplete suggestion based on the current value.
+	 * Return a string to suggest the complete text (including what's already typed),
+	 * which is shown when the cursor is at the end. Return `{text, range}` to suggest
+	 * a replacement for `range`, which defaults to the token before the cursor.
+	 * A grey ghost text will appear at the cursor showing the remainder of the suggestion.
+	 * May return a promise, see `debounce`.
+	 */
+	readonly getSuggestion?: (
+		value: string,
+		options: SuggestionOptions,
+	) => SuggestionResult | Promise<SuggestionResult>;
+
+	/**
+	 * Callback when a suggestion is accepted (via right arrow key).
+	 * Receives the accepted text, which is the whole value for string suggestions.
+	 */
+	readonly onSuggestionAccept?: (accepted: string) => void;
+
+	/**
+	 * Function that returns completion items for the current value, shown in a menu
+	 * under the cursor while a word is being typed. Items are filtered by the word
+	 * before the cursor, which an accepted item replaces.
+	 * Up/down arrows select an item, `Tab` or `Enter` accept it and `Escape` closes the menu.
+	 */
+	readonly getCompletions?: (
+		value: string,
+		cursorOffset: number,
+		options: ProviderOptions,
+	) => CompletionItem[] | Promise<CompletionItem[]>;
+
+	/**
+	 * Milliseconds to wait after the value stops changing before calling
+	 * `getSuggestion` and `getCompletions`. Providers that return a promise receive
+	 * a signal that is aborted when the value changes, and their late results are discarded.
+	 */
+	readonly debounce?: number;
+
+	/**
+	 * Number of columns between tab stops. Tabs in the value are drawn this wide.
+	 */
+	readonly tabWidth?: number;
+
+	/**
+	 * Indent with spaces instead of tab characters.
+	 */
+	readonly insertSpaces?: boolean;
+
+	/**
+	 * Keep the indentation of the current line on a new line, and indent further
+	 * after an opening bracket, or a colon in Python and YAML.
+	 */
+	readonly autoIndent?: boolean;
+
+	/**
+	 * Indent with `Tab` and outdent with `Shift+Tab`. While the input is focused,
+	 * Ink's focus management is disabled so `Tab` doesn't move the focus.
+	 * Off by default, which keeps `Tab` for moving between focusable components.
+	 */
+	readonly indentWithTab?: boolean;
+
+	/**
+	 * Insert the closing bracket or quote when an opening one is typed.
+	 * Typing the closing character right before an inserted one moves over it,
+	 * and `Backspace` between a pair deletes both.
+	 */
+	readonly autoClosePairs?: boolean;
+
+	/**
+	 * Highlight the bracket next to the cursor and its matching bracket.
+	 * Brackets in strings and comments are skipped, based on the syntax highlighting tokens.
+	 */
+	readonly matchBrackets?: boolean;
+
+	/**
+	 * Submitted values to recall with up/down arrows and search with `Ctrl+R`, oldest first.
+	 * Pass an array to manage the history yourself, or a store from `createHistoryStore()`
+	 * that submitted values are added to.
+	 */
+	readonly history?: readonly string[] | HistoryStore;
+
+	/**
+	 * Array of decorations to apply to the text.
+	 * Each decoration highlights a range of text with a preset or custom style,
+	 * and its message is shown under the input when the cursor is on it.
+	 * Decorations move along with edits until a new array is passed.
+	 */
+	readonly decorations?: Decoration[];
+
+	/**
+	 * Function that checks the value and returns diagnostics, which are drawn like
+	 * decorations in the style of their severity and counted under the input.
+	 * May return a promise, see `debounce`. Until the diagnostics of a new value
+	 * are returned, the previous ones move along with edits.
+	 */
+	readonly getDiagnostics?: (
+		value: string,
+		options: ProviderOptions,
+	) => Diagnostic[] | Promise<Diagnostic[]>;
+
+	/**
+	 * Ignore submitting while there are diagnostics with the `'error'` severity.
+	 */
+	readonly preventSubmitOnError?: boolean;
+};
+
+export type CodeEditor = {
+	/**
+	 * Current state of the editor, with the value passed to the hook.
+	 */
+	state: CodeEditorState;
+	/**
+	 * Handles an action and notifies the `on*` options of its changes.
+	 */
+	dispatch: (action: EditorAction) => void;
+	/**
+	 * Returns the state after the latest action, which `state` only has once
+	 * the host renders again.
+	 */
+	getLatestState: () => CodeEditorState;
+	/**
+	 * Segments of the value to render, see `createSegments()`. Find matches,
+	 * matching brackets and the history search match are added to the decorations.
+	 */
+	segments: Segment[];
+	selection?: Selection;
+	/**
+	 * Decorations passed to the hook and of diagnostics, moved along with the edits made since.
+	 */
+	decorations: Decoration[];
+	/**
+	 * Diagnostics returned by `getDiagnostics`, moved along with the edits made since.
+	 */
+	diagnostics: Diagnostic[];
+	/**
+	 * Suggestion for the current value, with the ghost text to show after the cursor.
+	 */
+	suggestion?: ResolvedSuggestion;
+	/**
+	 * Completion menu, when it's open.
+	 */
+	completion?: Completion;
+	/**
+	 * Matches of the find bar query, while the find bar is open.
+	 */
+	findResult?: {
+		matches: FindMatch[];
+		/**
+		 * Index of the current match, `undefined` when nothing matches.
+		 */
+		currentIndex?: number;
+		error?: string;
+	};
+	/**
+	 * Whether a promise returned by `getSuggestion` or `getCompletions` is pending.
+	 */
+	isLoading: boolean;
+	/**
+	 * Whether the cursor is shown, which is when the editor is focused and `showCursor` is enabled.
+	 */
+	isCursorVisible: boolean;
+	theme: ResolvedTheme;
+};
+
+/**
+ * Returns the syntax highlighting tokens of the value. Masked values aren't
+ * highlighted, which could reveal parts of them.
+ */
+function getTokens(
+	value: string,
+	{
+		mask,
+		language,
+		tokenizer,
+	}: Pick<CodeEditorOptions, 'mask' | 'language' | 'tokenizer'>,
+): TokenRange[] {
+	if (mask) {
+		return [];
+	}
+
+	if (tokenizer) {
+		return tokenizer(value);
+	}
+
+	return language ? tokenize(value, language) : [];
+}
+
+function getFindResult(
+	value: string,
+	find: FindState | undefined,
+): CodeEditor['findResult'] {
+	if (!find) {
+		return undefined;
+	}
+
+	const result = findMatches(value, find);
+
+	return {
+		...result,
+		currentIndex: getCurrentMatchIndex(result.matches, find.offset),
+	};
+}
+
+/**
+ * Returns the decorations that are only drawn, and aren't navigated or hinted
+ * like the `decorations` option: find matches, matching brackets and the
+ * history search match, which the cursor is placed at the start of.
+ */
+function getDrawnDecorations(
+	{value, cursorOffset, historySearch}: CodeEditorState,
+	findResult: CodeEditor['findResult'],
+	matchingBrackets: number[] | undefined,
+	theme: ResolvedTheme,
+): Decoration[] {
+	const isSearchMatch =
+		historySearch !== undefined &&
+		historySearch.query !== '' &&
+		!historySearch.isFailing &&
+		value.startsWith(historySearch.query, cursorOffset);
+
+	return [
+		...(findResult?.matches ?? []).map(({start, end}, index) => ({
+			start,
+			end,
+			style:
+				index === findResult?.currentIndex
+					? theme.currentFindMatch
+					: theme.findMatch,
+		})),
+		...(matchingBrackets ?? []).map(offset => ({
+			start: offset,
+			end: offset + 1,
+			style: theme.matchingBracket,
+		})),
+		...(isSearchMatch
+			? [
+					{
+						start: cursorOffset,
+						end: cursorOffset + historySearch.query.length,
+						style: 'highlight' as const,
+					},
+				]
+			: []),
+	];
+}
+
+/**
+ * Moves the cursor to a controlled offset that was changed from outside.
+ */
+function moveCursor(
+	state: CodeEditorState,
+	cursorOffset: number | undefined,
+): CodeEditorState {
+	return cursorOffset === undefined || cursorOffset === state.cursorOffset
+		? state
+		: {
+				...state,
+				cursorOffset,
+				cursorWidth: 0,
+				preferredColumn: undefined,
+				selectionAnchor: undefined,
+			};
+}
+
+/**
+ * Whether completions may be listed, unless the menu was dismissed or vim is
+ * outside insert mode.
+ */
+function canShowCompletionMenu(
+	state: CodeEditorState,
+	vimMode: boolean,
+): boolean {
+	return (
+		!state.completionMenu.isDismissed &&
+		(!vimMode || state.vim.mode === 'insert')
+	);
+}
+
+/**
+ * Returns the range of the text that was just pasted, which the cursor is right after.
+ */
+function getPastedRange({
+	cursorOffset,
+	cursorWidth,
+}: CodeEditorState): Selection | undefined {
+	return cursorWidth > 0
+		? {start: cursorOffset - cursorWidth, end: cursorOffset}
+		: undefined;
+}
+
+/**
+ * Calls the `on*` option for an event of `updateEditor()`, and adds
+ * submitted values to a history store.
+ */
+function notifyHost(event: EditorEvent, options: CodeEditorOptions) {
+	switch (event.type) {
+		case 'vimModeChange': {
+			options.onVimModeChange?.(event.mode);
+			break;
+		}
+
+		case 'cursorChange': {
+			options.onCursorChange?.(event.cursorOffset);
+			break;
+		}
+
+		case 'undoStateChange': {
+			options.onUndoStateChange?.({
+				canUndo: event.canUndo,
+				canRedo: event.canRedo,
+			});
+			break;
+		}
+
+		case 'suggestionAccept': {
+			options.onSuggestionAccept?.(event.text);
+			break;
+		}
+
+		case 'change': {
+			options.onChange(event.value, event.change);
+			break;
+		}
+
+		case 'submit': {
+			if (options.history && !isHistoryEntries(options.history)) {
+				options.history.add(event.value);
+			}
+
+			options.onSubmit?.(event.value);
+			break;
+		}
+	}
+}
+
+/**
+ * Editor state and behavior of `TextInput` without its rendering, for custom views.
+ * Pass keypresses to `dispatch` as `{type: 'keypress', input, chord}` and render `segments`.
+ * The value and cursor passed to the hook always take precedence over the edited
+ * ones, so edits the host doesn't take over with `onChange` are dropped.
+ */
+export function useCodeEditor(options: CodeEditorOptions): CodeEditor {
+	const {
+		value,
+		focus = true,
+		mask,
+		showCursor = true,
+		highlightPastedText = false,
+		multiline = false,
+		submitKey = 'meta+enter',
+		cursorOffset: controlledCursorOffset,
+		externalCursor,
+		onSelectionChange,
+		systemClipboard = false,
+		keymap,
+		vimMode = false,
+		language,
+		tokenizer,
+		theme: customTheme,
+		getSuggestion,
+		getCompletions,
+		debounce = 0,
+		history,
+		tabWidth = 4,
+		insertSpaces = true,
+		autoIndent = true,
+		indentWithTab = false,
+		autoClosePairs = false,
+		matchBrackets = false,
+		decorations = [],
+		getDiagnostics,
+		preventSubmitOnError = false,
+	} = options;
+	const stateRef = useRef<CodeEditorState | undefined>(undefined);
+	stateRef.current ??= createEditorState(value, controlledCursorOffset);
+	const [, rerender] = useReducer((count: number) => count + 1, 0);
+	const {stdout} = useStdout();
+
+	// A value changed from outside moves the cursor through the change, once
+	const valueRef = useRef(value);
+
+	if (value !== valueRef.current) {
+		valueRef.current = value;
+		stateRef.current = updateEditor(stateRef.current, {
+			type: 'setValue',
+			value,
+			...externalCursor,
+		}).state;
+	}
+
+	// Moving a controlled cursor from outside drops the selection, like clicking elsewhere would
+	const controlledCursorRef = useRef(controlledCursorOffset);
+
+	if (controlledCursorOffset !== controlledCursorRef.current) {
+		controlledCursorRef.current = controlledCursorOffset;
+		stateRef.current = moveCursor(stateRef.current, controlledCursorOffset);
+	}
+
+	// The value passed in is also taken over before every action, since the host
+	// may not have taken over the previous edit.
+	// A controlled cursor is kept inside the value and off the middle of graphemes
+	const getState = (): CodeEditorState => {
+		const {state} = updateEditor(stateRef.current!, {
+			type: 'setValue',
+			value,
+		});
+
+		return controlledCursorOffset === undefined
+			? state
+			: {
+					...state,
+					cursorOffset: snapToGrapheme(value, controlledCursorOffset),
+				};
+	};
+
+	const mapped = useMappedDecorations(
+		decorations,
+		getDiagnostics,
+		value,
+		debounce,
+	);
+	const {diagnostics} = mapped;
+	const currentDecorations = [
+		...mapped.decorations,
+		...diagnostics.map(diagnostic => getDiagnosticDecoration(diagnostic)),
+	];
+	const state = getState();
+	const {cursorOffset} = state;
+	const selection = getSelection(state.selectionAnchor, cursorOffset);
+	const isCursorVisible = focus && showCursor;
+
+	const reportedSelectionRef = useRef<Selection | undefined>(undefined);
+
+	const selectionStart = selection?.start;
+	const selectionEnd = selection?.end;
+
+	useEffect(() => {
+		const reportedSelection = reportedSelectionRef.current;
+
+		if (
+			selectionStart !== reportedSelection?.start ||
+			selectionEnd !== reportedSelection?.end
+		) {
+			const nextSelection =
+				selectionStart === undefined || selectionEnd === undefined
+					? undefined
+					: {start: selectionStart, end: selectionEnd};
+
+			reportedSelectionRef.current = nextSelection;
+			onSelectionChange?.(nextSelection);
+		}
+	}, [selectionStart, selectionEnd, onSelectionChange]);
+
+	const isCompletionMenuActive =
+		isCursorVisible && !selection && canShowCompletionMenu(state, vimMode);
+
+	const {result: candidate, isLoading: isSuggestionLoading} = useProviderResult(
+		getSuggestion,
+		focus
+			? [value, {cursorOffset, token: getToken(value, cursorOffset)}]
+			: undefined,
+		debounce,
+	);
+
+	const {result: completionItems, isLoading: areCompletionsLoading} =
+		useProviderResult(
+			getCompletions,
+			isCompletionMenuActive ? [value, cursorOffset, {}] : undefined,
+			debounce,
+		);
+
+	const suggestion = candidate
+		? resolveSuggestion(candidate, value, cursorOffset)
+		: undefined;
+
+	const completion = completionItems
+		? getCompletion(
+				completionItems,
+				value,
+				cursorOffset,
+				state.completionMenu.selectedIndex,
+			)
+		: undefined;
+
+	const theme = useMemo(() => resolveTheme(customTheme), [customTheme]);
+
+	// Tokenize the whole value once, so tokens keep their style wherever the cursor is
+	const tokens = useMemo(
+		() => getTokens(value, {mask, language, tokenizer}),
+		[value, mask, language, tokenizer],
+	);
+
+	const editorOptions: EditorOptions = {
+		showCursor,
+		multiline,
+		submitKey,
+		keymap,
+		vimMode,
+		tabWidth,
+		insertSpaces,
+		autoIndent,
+		indentWithTab,
+		autoClosePairs,
+		language,
+		decorations: currentDecorations,
+		historyEntries: getHistoryEntries(history),
+		tokens,
+		suggestion,
+		completion,
+		clipboardStream: systemClipboard ? stdout : undefined,
+		canSubmit:
+			!preventSubmitOnError ||
+			!diagnostics.some(diagnostic => diagnostic.severity === 'error'),
+	};
+
+	// The host is notified before rendering, so it renders the new value along with the editor
+	const dispatch = (action: EditorAction) => {
+		const update = updateEditor(getState(), action, editorOptions);
+		stateRef.current = update.state;
+
+		for (const event of update.events) {
+			if (event.type === 'change') {
+				mapped.mapEdit(event.change);
+			}
+
+			notifyHost(event, options);
+		}
+
+		rerender();
+	};
+
+	const findResult = getFindResult(value, state.find);
+	const matchingBrackets =
+		matchBrackets && isCursorVisible
+			? findMatchingBrackets(value, cursorOffset, tokens)
+			: undefined;
+
+	const segments = createSegments(value, {
+		cursorOffset,
+		showCursor: isCursorVisible,
+		selection: isCursorVisible ? selection : undefined,
+		decorations: [
+			...currentDecorations,
+			...getDrawnDecorations(state, findResult, matchingBrackets, theme),
+		],
+		tokens,
+		pastedRange:
+			highlightPastedText && isCursorVisible
+				? getPastedRange(state)
+				: undefined,
+	});
+
+	return {
+		state,
+		dispatch,
+		getLatestState: () => stateRef.current!,
+		segments,
+		selection,
+		decorations: currentDecorations,
+		diagnostics,
+		suggestion,
+		completion,
+		findResult,
+		isLoading: isSuggestionLoading || areCompletionsLoading,
+		isCursorVisible,
+		theme,
+	};
+}
@@ -0,0 +1,78 @@
+import {useRef} from 'react';
+import {mapRanges, type TextEdit} from './changes.js';
+import type {Decoration} from './decorations.js';
+import type {Diagnostic} from './diagnostics.js';
+import {useProviderResult, type Provider} from './use-provider-result.js';
+
+type MappedDecorations = {
+	/**
+	 * Decorations passed in, moved along with the edits made since.
+	 */
+	decorations: Decoration[];
+	/**
+	 * Diagnostics returned by `getDiagnostics`, moved along with the edits made since.
+	 */
+	diagnostics: Diagnostic[];
+	/**
+	 * Moves the decorations and diagnostics along with an edit of the value.
+	 */
+	mapEdit: (edit: TextEdit) => void;
+};
+
+/**
+ * Returns the decorations passed in and the diagnostics of `getDiagnostics`.
+ * Decorations of a previous value would be drawn in the wrong place until
+ * the host computes new ones, so they're moved along with every edit until then.
+ * Hosts may create the same decorations on every render, so they're compared by content.
+ */
+export function useMappedDecorations(
+	decorations: Decoration[],
+	getDiagnostics: Provider<[string], unknown, Diagnostic[]> | undefined,
+	value: string,
+	debounce: number,
+): MappedDecorations {
+	const decorationsKey = JSON.stringify(decorations);
+	const decorationsRef = useRef({key: decorationsKey, mapped: decorations});
+
+	if (decorationsRef.current.key !== decorationsKey) {
+		decorationsRef.current = {key: decorationsKey, mapped: decorations};
+	}
+
+	const {result: diagnosticsResult} = useProviderResult(
+		getDiagnostics,
+		[value, {}],
+		debounce,
+	);
+
+	const diagnosticsRef = useRef<{
+		source?: Diagnostic[];
+		mapped: Diagnostic[];
+	}>({mapped: []});
+
+	if (!getDiagnostics) {
+		diagnosticsRef.current = {mapped: []};
+	} else if (
+		diagnosticsResult &&
+		diagnosticsResult !== diagnosticsRef.current.source
+	) {
+		diagnosticsRef.current = {
+			source: diagnosticsResult,
+			mapped: diagnosticsResult,
+		};
+	}
+
+	return {
+		decorations: decorationsRef.current.mapped,
+		diagnostics: diagnosticsRef.current.mapped,
+		mapEdit(edit) {
+			decorationsRef.current = {
+				...decorationsRef.current,
+				mapped: mapRanges(decorationsRef.current.mapped, edit),
+			};
+			diagnosticsRef.current = {
+				...diagnosticsRef.current,
+				mapped: mapRanges(diagnosticsRef.current.mapped, edit),
+			};
+		},
+	};
+}
@@ -0,0 +1,144 @@
+import {useEffect, useMemo, useRef, useState} from 'react';
+
+/**
+ * Options passed to providers as the last argument.
+ */
+export type ProviderOptions = {
+	/**
+	 * Aborted when the result is no longer needed, because the value changed.
+	 */
+	signal: AbortSignal;
+};
+
+/**
+ * Function that returns a result for the editor, either right away or as a promise.
+ * Its last argument is an options object, which the signal is added to.
+ */
+export type Provider<Args extends unknown[], Options, Result> = (
+	...args: [...Args, Options & ProviderOptions]
+) => Result | Promise<Result>;
+
+type ProviderResult<Result> = {
+	result?: Result;
+	/**
+	 * Whether a promise returned by the provider is pending.
+	 */
+	isLoading: boolean;
+};
+
+/**
+ * Calls `provider`, turning an error it throws into a rejected promise,
+ * like the one of a provider that fails asynchronously.
+ */
+function callProvider<Args extends unknown[], Options, Result>(
+	provider: Provider<Args, Options, Result>,
+	args: [...Args, Options],
+	signal: AbortSignal,
+): Result | Promise<Result> {
+	const leadingArgs = args.slice(0, -1) as Args;
+	const options = args.at(-1) as Options;
+
+	try {
+		return provider(...leadingArgs, {...options, signal});
+	} catch (error) {
+		return Promise.reject(error as Error);
+	}
+}
+
+/**
+ * Calls `provider` with `args` whenever they change and returns its result.
+ * Results returned synchronously are available during the same render.
+ * Promises are awaited, and requests for previous arguments are aborted,
+ * so a result is never returned for arguments other than the current ones.
+ * With `debounce`, the provider is only called once the arguments stop changing.
+ * The last of `args` is the options object that the signal is added to.
+ * Pass `undefined` as `args` to skip calling the provider.
+ */
+export function useProviderResult<Args extends unknown[], Options, Result>(
+	provider: Provider<Args, Options, Result> | undefined,
+	args: [...Args, Options] | undefined,
+	debounce: number,
+): ProviderResult<Result> {
+	const key = args && JSON.stringify(args);
+	const argsRef = useRef(args);
+	argsRef.current = args;
+
+	// The arguments are only compared by their key, so a new array with the same
+	// arguments doesn't call the provider again
+	const request = useMemo(() => {
+		const args = argsRef.current;
+
+		if (!provider || !args || key === undefined) {
+			return undefined;
+		}
+
+		const controller = new AbortController();
+
+		return {
+			controller,
+			result:
+				debounce > 0
+					? undefined
+					: callProvider(provider, args, controller.signal),
+		};
+	}, [provider, key, debounce]);
+
+	const [loaded, setLoaded] = useState<{key: string; result?: Result}>();
+	const [isLoading, setIsLoading] = useState(false);
+	const isSynchronous =
+		request !== undefined &&
+		debounce === 0 &&
+		!(request.result instanceof Promise);
+
+	useEffect(() => {
+		const args = argsRef.current;
+
+		if (!provider || !args || !request || key === undefined || isSynchronous) {
+			return;
+		}
+
+		const {controller} = request;
+		const {signal} = controller;
+
+		const handleResult = (result?: Result) => {
+			if (!signal.aborted) {
+				setLoaded({key, result});
+				setIsLoading(false);
+			}
+		};
+
+		const load = (result: Result | Promise<Result>) => {
+			Promise.resolve(result).then(handleResult, () => {
+				handleResult(undefined);
+			});
+		};
+
+		setIsLoading(true);
+
+		const timer =
+			debounce > 0
+				? setTimeout(() => {
+						load(callProvider(provider, args, signal));
+					}, debounce)
+				: undefined;
+
+		if (debounce === 0 && request.result !== undefined) {
+			load(request.result);
+		}
+
+		return () => {
+			clearTimeout(timer);
+			controller.abort();
+			setIsLoading(false);
+		};
+	}, [provider, request, key, debounce, isSynchronous]);
+
+	if (isSynchronous) {
+		return {result: request.result as Result, isLoading: false};
+	}
+
+	return {
+		result: loaded?.key === key ? loaded?.result : undefined,
+		isLoading: isLoading && request !== undefined,
+	};
+}
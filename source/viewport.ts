@@ -0,0 +1,155 @@
+import {getWidth, splitGraphemes} from './graphemes.js';
+import {expandTabs} from './lines.js';
+import type {Style} from './theme.js';
+
+/**
+ * Piece of the rendered input: a part of the value, the cursor, ghost text or the placeholder.
+ */
+export type StyledText = {
+	key: string;
+	text: string;
+	style?: Style;
+	isCursor?: boolean;
+};
+
+/**
+ * Markers drawn over the edges of the viewport when there is hidden text.
+ */
+export type ScrollIndicator = 'ellipsis' | 'arrow';
+
+const indicators: Record<ScrollIndicator, {left: string; right: string}> = {
+	ellipsis: {left: '…', right: '…'},
+	arrow: {left: '←', right: '→'},
+};
+
+const indicatorStyle: Style = {dimColor: true};
+
+/**
+ * Replaces tabs in pieces with spaces up to the next tab stop, counting columns
+ * across pieces from the start of each line.
+ */
+export function expandPieceTabs(
+	pieces: StyledText[],
+	tabWidth: number,
+): StyledText[] {
+	let column = 0;
+
+	return pieces.map(piece => {
+		const text = expandTabs(piece.text, column, tabWidth);
+		const lineBreakIndex = text.lastIndexOf('\n');
+
+		column =
+			lineBreakIndex === -1
+				? column + getWidth(text)
+				: getWidth(text.slice(lineBreakIndex + 1));
+
+		return text === piece.text ? piece : {...piece, text};
+	});
+}
+
+/**
+ * Returns the column at which the cursor starts and the width of the cursor.
+ */
+function getCursorColumns(pieces: StyledText[]): {
+	column: number;
+	width: number;
+} {
+	let column = 0;
+
+	for (const piece of pieces) {
+		if (piece.isCursor) {
+			return {column, width: getWidth(piece.text)};
+		}
+
+		column += getWidth(piece.text);
+	}
+
+	return {column, width: 0};
+}
+
+/**
+ * Returns the first visible column of a viewport `width` columns wide.
+ * Scrolling only happens when the cursor would be hidden, or covered by
+ * a scroll indicator, so the text doesn't jump around while typing.
+ */
+export function getScrollColumn(
+	pieces: StyledText[],
+	previousScrollColumn: number,
+	width: number,
+): number {
+	const contentWidth = pieces.reduce(
+		(total, piece) => total + getWidth(piece.text),
+		0,
+	);
+	const maxScrollColumn = Math.max(0, contentWidth - width);
+	const cursor = getCursorColumns(pieces);
+	let scrollColumn = Math.min(previousScrollColumn, maxScrollColumn);
+
+	// Keep a column for the indicators on both sides of the cursor
+	if (cursor.column <= scrollColumn) {
+		scrollColumn = Math.max(0, cursor.column - 1);
+	}
+
+	if (cursor.column + cursor.width > scrollColumn + width - 1) {
+		scrollColumn = cursor.column + cursor.width - width + 1;
+	}
+
+	return Math.max(0, Math.min(scrollColumn, maxScrollColumn));
+}
+
+/**
+ * Clips pieces to the columns of the viewport, replacing its first and last
+ * columns with scroll indicators when there is hidden text on that side.
+ * Wide characters cut by the edges are replaced with spaces.
+ */
+export function clipToViewport(
+	pieces: StyledText[],
+	scrollColumn: number,
+	width: number,
+	indicator: ScrollIndicator,
+): StyledText[] {
+	const contentWidth = pieces.reduce(
+		(total, piece) => total + getWidth(piece.text),
+		0,
+	);
+	const hasLeftIndicator = scrollColumn > 0;
+	const hasRightIndicator = contentWidth > scrollColumn + width;
+	const start = scrollColumn + (hasLeftIndicator ? 1 : 0);
+	const end = scrollColumn + width - (hasRightIndicator ? 1 : 0);
+	const clipped: StyledText[] = [];
+	let column = 0;
+
+	for (const piece of pieces) {
+		let text = '';
+
+		for (const grapheme of splitGraphemes(piece.text)) {
+			const graphemeWidth = getWidth(grapheme);
+			const visibleWidth =
+				Math.min(column + graphemeWidth, end) - Math.max(column, start);
+
+			if (column >= start && column < end && visibleWidth === graphemeWidth) {
+				text += grapheme;
+			} else if (visibleWidth > 0) {
+				text += ' '.repeat(visibleWidth);
+			}
+
+			column += graphemeWidth;
+		}
+
+		if (text) {
+			clipped.push({...piece, text});
+		}
+	}
+
+	const {left, right} = indicators[indicator];
+
+	return [
+		...(hasLeftIndicator
+			? [{key: 'scroll-left', text: left, style: indicatorStyle}]
+			: []),
+		...clipped,
+		...(hasRightIndicator
+			? [{key: 'scroll-right', text: right, style: indicatorStyle}]
+			: []),
+	];
+}
@@ -0,0 +1,831 @@
+import {
+	insertText,
+	replaceRange,
+	runCommand,
+	type CommandContext,
+	type CommandResult,
+} from './commands.js';
+import {getNextGraphemeOffset, getPreviousGraphemeOffset} from './graphemes.js';
+import {getColumn, getLineEnd, getLineStart, moveVertically} from './lines.js';
+import type {Selection} from './selection.js';
+import {findNextWordStart, findWordEnd, findWordStart} from './words.js';
+
+/**
+ * Current mode of the Vim emulation.
+ */
+export type VimMode = 'normal' | 'insert' | 'visual';
+
+type Operator = 'd' | 'c' | 'y';
+
+/**
+ * Text saved by `d`, `c`, `y` and `x`, pasted with `p` and `P`.
+ */
+type Register = {
+	text: string;
+	/**
+	 * Whether whole lines were saved (`dd`, `yy`), which are pasted as lines.
+	 */
+	linewise: boolean;
+};
+
+export type VimState = {
+	mode: VimMode;
+	/**
+	 * Keys typed so far for an incomplete command, e.g. `2d`.
+	 */
+	pending: string;
+	register: Register;
+	/**
+	 * Last change and the text inserted with it, repeated with `.`.
+	 */
+	lastChange?: {keys: string; insertedText: string};
+	/**
+	 * Change that entered insert mode and where inserting started,
+	 * used to record the inserted text when leaving insert mode.
+	 */
+	insertStart?: {keys: string; offset: number};
+};
+
+/**
+ * Editing starts in insert mode, like in shells with Vim key bindings.
+ */
+export const initialVimState: VimState = {
+	mode: 'insert',
+	pending: '',
+	register: {text: '', linewise: false},
+};
+
+type VimResult = {
+	vim: VimState;
+	result?: CommandResult;
+};
+
+type Motion = {
+	target: number;
+	/**
+	 * Whether an operator includes the character at `target`.
+	 */
+	inclusive: boolean;
+	preferredColumn?: number;
+};
+
+const motionKeys = new Set(['h', 'l', 'w', 'b', 'e', '0', '$', 'j', 'k']);
+
+// Keys that behave like Vim keys in normal and visual modes
+const chordKeys: Record<string, string> = {
+	left: 'h',
+	right: 'l',
+	up: 'k',
+	down: 'j',
+	home: '0',
+	end: '$',
+	backspace: 'h',
+	delete: 'x',
+};
+
+/**
+ * In normal mode the cursor stays on a character, so it can't move past
+ * the last character of a line.
+ */
+function clampToLine(value: string, offset: number): number {
+	const lineStart = getLineStart(value, offset);
+	return Math.min(
+		offset,
+		Math.max(
+			lineStart,
+			getPreviousGraphemeOffset(value, getLineEnd(value, offset)),
+		),
+	);
+}
+
+function getMotion(
+	context: CommandContext,
+	key: string,
+	count: number,
+): Motion | undefined {
+	const {value, cursorOffset, preferredColumn} = context.state;
+	const {tabWidth} = context.indentOptions;
+	let target = cursorOffset;
+
+	for (let i = 0; i < count; i++) {
+		switch (key) {
+			case 'h': {
+				target = Math.max(
+					getLineStart(value, target),
+					getPreviousGraphemeOffset(value, target),
+				);
+				break;
+			}
+
+			case 'l': {
+				target = Math.min(
+					getLineEnd(value, target),
+					getNextGraphemeOffset(value, target),
+				);
+				break;
+			}
+
+			case 'w': {
+				target = findNextWordStart(value, target);
+				break;
+			}
+
+			case 'b': {
+				target = findWordStart(value, target);
+				break;
+			}
+
+			case 'e': {
+				target = Math.max(
+					target,
+					getPreviousGraphemeOffset(
+						value,
+						findWordEnd(value, getNextGraphemeOffset(value, target)),
+					),
+				);
+				break;
+			}
+
+			case 'j':
+			case 'k': {
+				const column =
+					preferredColumn ?? getColumn(value, cursorOffset, tabWidth);
+				const isEdgeLine =
+					key === 'k'
+						? getLineStart(value, target) === 0
+						: getLineEnd(value, target) === value.length;
+
+				if (!isEdgeLine) {
+					target = moveVertically(
+						value,
+						target,
+						key === 'k' ? 'up' : 'down',
+						column,
+						tabWidth,
+					);
+				}
+
+				break;
+			}
+
+			default: {
+				break;
+			}
+		}
+	}
+
+	switch (key) {
+		case '0': {
+			return {target: getLineStart(value, cursorOffset), inclusive: false};
+		}
+
+		case '$': {
+			return {
+				target: Math.max(
+					getLineStart(value, cursorOffset),
+					getPreviousGraphemeOffset(value, getLineEnd(value, cursorOffset)),
+				),
+				inclusive: true,
+			};
+		}
+
+		case 'e': {
+			return {target, inclusive: true};
+		}
+
+		case 'j':
+		case 'k': {
+			return {
+				target,
+				inclusive: false,
+				preferredColumn:
+					preferredColumn ?? getColumn(value, cursorOffset, tabWidth),
+			};
+		}
+
+		default: {
+			return motionKeys.has(key) ? {target, inclusive: false} : undefined;
+		}
+	}
+}
+
+function moveTo(
+	context: CommandContext,
+	offset: number,
+	{
+		selectionAnchor,
+		preferredColumn,
+	}: {selectionAnchor?: number; preferredColumn?: number} = {},
+): CommandResult {
+	const {value} = context.state;
+
+	return {
+		state: {
+			value,
+			cursorOffset: clampToLine(value, offset),
+			cursorWidth: 0,
+			preferredColumn,
+			selectionAnchor,
+		},
+	};
+}
+
+/**
+ * Returns the context as it is after `result` was applied.
+ */
+function applyResult(
+	context: CommandContext,
+	result: CommandResult,
+): CommandContext {
+	return {
+		...context,
+		state: result.state,
+		selection: undefined,
+		history: result.history ?? context.history,
+		killRing: result.killRing ?? context.killRing,
+	};
+}
+
+/**
+ * Combines results of consecutive steps into one, so they are applied at once.
+ */
+function combineResults(
+	first: CommandResult | undefined,
+	second: CommandResult | undefined,
+): CommandResult | undefined {
+	if (!first || !second) {
+		return second ?? first;
+	}
+
+	return {
+		...second,
+		editKind: second.editKind ?? first.editKind,
+		edits: [...(first.edits ?? []), ...(second.edits ?? [])],
+		history: second.history ?? first.history,
+	};
+}
+
+/**
+ * Returns the range of `count` lines starting at the cursor line.
+ */
+function getLinesRange(
+	value: string,
+	offset: number,
+	count: number,
+): Selection {
+	const start = getLineStart(value, offset);
+	let end = getLineEnd(value, offset);
+
+	for (let i = 1; i < count && end < value.length; i++) {
+		end = getLineEnd(value, end + 1);
+	}
+
+	return {start, end};
+}
+
+function applyOperator(
+	vim: VimState,
+	context: CommandContext,
+	operator: Operator,
+	{linewise = false, ...range}: Selection & {linewise?: boolean},
+): VimResult {
+	const {value} = context.state;
+	const register = {
+		text: value.slice(range.start, range.end) + (linewise ? '\n' : ''),
+		linewise,
+	};
+
+	if (operator === 'y') {
+		return {vim: {...vim, register}, result: moveTo(context, range.start)};
+	}
+
+	let deletedRange = range;
+
+	// Deleting lines also removes the line break after them,
+	// or before them when they are at the end of the value
+	if (linewise && operator === 'd') {
+		deletedRange =
+			range.end < value.length
+				? {start: range.start, end: range.end + 1}
+				: {start: Math.max(range.start - 1, 0), end: range.end};
+	}
+
+	const result = replaceRange(context, deletedRange, '', 'cut');
+
+	if (operator === 'c') {
+		return {
+			vim: {...vim, register, mode: 'insert'},
+			result,
+		};
+	}
+
+	const cursorOffset =
+		linewise && range.end >= value.length
+			? getLineStart(result.state.value, deletedRange.start)
+			: deletedRange.start;
+
+	return {
+		vim: {...vim, register},
+		result: {
+			...result,
+			state: {
+				...result.state,
+				cursorOffset: clampToLine(result.state.value, cursorOffset),
+			},
+		},
+	};
+}
+
+function paste(
+	vim: VimState,
+	context: CommandContext,
+	before: boolean,
+	count: number,
+): VimResult {
+	const {text, linewise} = vim.register;
+	const {value, cursorOffset} = context.state;
+
+	if (!text) {
+		return {vim};
+	}
+
+	if (linewise) {
+		const lines = text.repeat(count);
+		const offset = before
+			? getLineStart(value, cursorOffset)
+			: getLineEnd(value, cursorOffset);
+		const insertedText = before ? lines : '\n' + lines.slice(0, -1);
+		const result = replaceRange(
+			context,
+			{start: offset, end: offset},
+			insertedText,
+			'paste',
+		);
+
+		return {
+			vim,
+			result: {
+				...result,
+				state: {...result.state, cursorOffset: before ? offset : offset + 1},
+			},
+		};
+	}
+
+	const offset =
+		before || cursorOffset >= getLineEnd(value, cursorOffset)
+			? cursorOffset
+			: getNextGraphemeOffset(value, cursorOffset);
+	const insertedText = text.repeat(count);
+	const result = replaceRange(
+		context,
+		{start: offset, end: offset},
+		insertedText,
+		'paste',
+	);
+
+	return {
+		vim,
+		result: {
+			...result,
+			state: {
+				...result.state,
+				cursorOffset: getPreviousGraphemeOffset(
+					result.state.value,
+					offset + insertedText.length,
+				),
+			},
+		},
+	};
+}
+
+function enterInsertMode(
+	vim: VimState,
+	context: CommandContext,
+	offset: number,
+): VimResult {
+	return {
+		vim: {...vim, mode: 'insert'},
+		result: {
+			state: {
+				value: context.state.value,
+				cursorOffset: offset,
+				cursorWidth: 0,
+			},
+		},
+	};
+}
+
+function exitInsertMode(vim: VimState, context: CommandContext): VimResult {
+	const {value, cursorOffset} = context.state;
+	const {insertStart} = vim;
+	const insertedText =
+		insertStart && cursorOffset >= insertStart.offset
+			? value.slice(insertStart.offset, cursorOffset)
+			: '';
+
+	return {
+		vim: {
+			...vim,
+			mode: 'normal',
+			pending: '',
+			insertStart: undefined,
+			lastChange: insertStart
+				? {keys: insertStart.keys, insertedText}
+				: vim.lastChange,
+		},
+		// The cursor moves onto the last inserted character, like in Vim
+		result: moveTo(
+			context,
+			cursorOffset > getLineStart(value, cursorOffset)
+				? getPreviousGraphemeOffset(value, cursorOffset)
+				: cursorOffset,
+		),
+	};
+}
+
+/**
+ * Applies an operator to the text covered by a motion, or to whole lines
+ * when the operator is repeated (`dd`, `cc`, `yy`).
+ */
+function applyOperatorMotion(
+	vim: VimState,
+	context: CommandContext,
+	{count, operator, key}: {count: number; operator: Operator; key: string},
+): VimResult | undefined {
+	const {value, cursorOffset} = context.state;
+
+	if (key === operator) {
+		return applyOperator(vim, context, operator, {
+			...getLinesRange(value, cursorOffset, count),
+			linewise: true,
+		});
+	}
+
+	// `cw` changes to the end of the word, like `ce`
+	const motion = getMotion(
+		context,
+		operator === 'c' && key === 'w' ? 'e' : key,
+		count,
+	);
+
+	if (!motion) {
+		return undefined;
+	}
+
+	const start = Math.min(cursorOffset, motion.target);
+	const motionEnd = Math.max(cursorOffset, motion.target);
+	let end = motion.inclusive
+		? getNextGraphemeOffset(value, motionEnd)
+		: motionEnd;
+
+	// Word motions don't take operators past the end of the line
+	if (key === 'w') {
+		end = Math.min(end, Math.max(getLineEnd(value, cursorOffset), start));
+	}
+
+	return applyOperator(vim, context, operator, {
+		start,
+		end: Math.min(end, value.length),
+	});
+}
+
+function executeNormalCommand(
+	vim: VimState,
+	context: CommandContext,
+	{count, operator, key}: {count: number; operator?: Operator; key: string},
+): VimResult | undefined {
+	const {value, cursorOffset} = context.state;
+
+	if (operator) {
+		return applyOperatorMotion(vim, context, {count, operator, key});
+	}
+
+	const motion = getMotion(context, key, count);
+
+	if (motion) {
+		return {
+			vim,
+			result: moveTo(context, motion.target, {
+				preferredColumn: motion.preferredColumn,
+			}),
+		};
+	}
+
+	switch (key) {
+		case 'x': {
+			let end = cursorOffset;
+
+			for (let i = 0; i < count; i++) {
+				end = Math.min(
+					getNextGraphemeOffset(value, end),
+					getLineEnd(value, cursorOffset),
+				);
+			}
+
+			return end > cursorOffset
+				? applyOperator(vim, context, 'd', {start: cursorOffset, end})
+				: {vim};
+		}
+
+		case 'p':
+		case 'P': {
+			return paste(vim, context, key === 'P', count);
+		}
+
+		case 'u': {
+			const result = runCommand('undo', context);
+
+			return {
+				vim,
+				result: result && {
+					...result,
+					state: {
+						...result.state,
+						cursorOffset: clampToLine(
+							result.state.value,
+							result.state.cursorOffset,
+						),
+					},
+				},
+			};
+		}
+
+		case 'i': {
+			return enterInsertMode(vim, context, cursorOffset);
+		}
+
+		case 'a': {
+			return enterInsertMode(
+				vim,
+				context,
+				Math.min(
+					getNextGraphemeOffset(value, cursorOffset),
+					getLineEnd(value, cursorOffset),
+				),
+			);
+		}
+
+		case 'I': {
+			return enterInsertMode(vim, context, getLineStart(value, cursorOffset));
+		}
+
+		case 'A': {
+			return enterInsertMode(vim, context, getLineEnd(value, cursorOffset));
+		}
+
+		case 'v': {
+			return {
+				vim: {...vim, mode: 'visual'},
+				result: moveTo(context, cursorOffset, {selectionAnchor: cursorOffset}),
+			};
+		}
+
+		case '.': {
+			return repeatLastChange(vim, context);
+		}
+
+		default: {
+			return undefined;
+		}
+	}
+}
+
+function executeVisualCommand(
+	vim: VimState,
+	context: CommandContext,
+	{count, key}: {count: number; key: string},
+): VimResult | undefined {
+	const {value, cursorOffset, selectionAnchor = cursorOffset} = context.state;
+	const motion = getMotion(context, key, count);
+
+	if (motion) {
+		return {
+			vim,
+			result: moveTo(context, motion.target, {
+				selectionAnchor,
+				preferredColumn: motion.preferredColumn,
+			}),
+		};
+	}
+
+	const range = {
+		start: Math.min(selectionAnchor, cursorOffset),
+		end: getNextGraphemeOffset(value, Math.max(selectionAnchor, cursorOffset)),
+	};
+
+	switch (key) {
+		case 'd':
+		case 'x':
+		case 'c':
+		case 'y': {
+			const operator = key === 'x' ? 'd' : key;
+			const result = applyOperator(
+				{...vim, mode: 'normal'},
+				context,
+				operator,
+				range,
+			);
+
+			return operator === 'c'
+				? {...result, vim: {...result.vim, insertStart: undefined}}
+				: result;
+		}
+
+		case 'v': {
+			return {
+				vim: {...vim, mode: 'normal'},
+				result: moveTo(context, cursorOffset),
+			};
+		}
+
+		default: {
+			return undefined;
+		}
+	}
+}
+
+const normalCommandPattern = /^([1-9]\d*)?(?:([dcy])([1-9]\d*)?)?(.?)$/;
+const visualCommandPattern = /^([1-9]\d*)?(.?)$/;
+
+// Commands that change the value, which `.` repeats
+const changeKeys = new Set(['x', 'p', 'P', 'i', 'a', 'I', 'A']);
+
+/**
+ * Handles one key typed in normal or visual mode.
+ */
+function handleCommandKey(
+	vim: VimState,
+	context: CommandContext,
+	char: string,
+): VimResult {
+	const keys = vim.pending + char;
+
+	if (vim.mode === 'visual') {
+		const [, count, key] = visualCommandPattern.exec(keys) ?? [];
+
+		if (!key) {
+			return {vim: {...vim, pending: count ? keys : ''}};
+		}
+
+		return (
+			executeVisualCommand({...vim, pending: ''}, context, {
+				count: Number(count ?? 1),
+				key,
+			}) ?? {vim: {...vim, pending: ''}}
+		);
+	}
+
+	const match = normalCommandPattern.exec(keys);
+
+	if (!match) {
+		return {vim: {...vim, pending: ''}};
+	}
+
+	const [, count1, operator, count2, key] = match;
+
+	if (!key) {
+		return {vim: {...vim, pending: keys}};
+	}
+
+	const step = executeNormalCommand({...vim, pending: ''}, context, {
+		count: Number(count1 ?? 1) * Number(count2 ?? 1),
+		operator: operator as Operator | undefined,
+		key,
+	});
+
+	if (!step) {
+		return {vim: {...vim, pending: ''}};
+	}
+
+	const isChange =
+		key !== '.' &&
+		(operator === 'd' || operator === 'c' || changeKeys.has(key));
+
+	if (!isChange) {
+		return step;
+	}
+
+	if (step.vim.mode === 'insert') {
+		return {
+			...step,
+			vim: {
+				...step.vim,
+				insertStart: {
+					keys,
+					offset: step.result?.state.cursorOffset ?? context.state.cursorOffset,
+				},
+			},
+		};
+	}
+
+	return {
+		...step,
+		vim: {...step.vim, lastChange: {keys, insertedText: ''}},
+	};
+}
+
+/**
+ * Handles a sequence of keys, applying each step's result before the next one.
+ * Text typed after a command that enters insert mode is inserted.
+ */
+function handleCommandKeys(
+	vim: VimState,
+	context: CommandContext,
+	keys: string,
+): VimResult {
+	let current: VimResult = {vim};
+	let currentContext = context;
+
+	for (const [index, char] of [...keys].entries()) {
+		if (current.vim.mode === 'insert') {
+			const result = insertText(
+				currentContext,
+				[...keys].slice(index).join(''),
+				'insert',
+			);
+
+			return {vim: current.vim, result: combineResults(current.result, result)};
+		}
+
+		const step = handleCommandKey(current.vim, currentContext, char);
+
+		if (step.result) {
+			currentContext = applyResult(currentContext, step.result);
+		}
+
+		current = {
+			vim: step.vim,
+			result: combineResults(current.result, step.result),
+		};
+	}
+
+	return current;
+}
+
+function repeatLastChange(vim: VimState, context: CommandContext): VimResult {
+	const {lastChange} = vim;
+
+	if (!lastChange) {
+		return {vim};
+	}
+
+	const step = handleCommandKeys(vim, context, lastChange.keys);
+
+	if (step.vim.mode !== 'insert') {
+		return step;
+	}
+
+	let repeatContext = step.result ? applyResult(context, step.result) : context;
+	const insertResult = insertText(
+		repeatContext,
+		lastChange.insertedText,
+		'insert',
+	);
+	repeatContext = applyResult(repeatContext, insertResult);
+	const exit = exitInsertMode(step.vim, repeatContext);
+
+	return {
+		vim: {...exit.vim, lastChange},
+		result: combineResults(
+			combineResults(step.result, insertResult),
+			exit.result,
+		),
+	};
+}
+
+/**
+ * Handles a keypress in Vim mode. Returns `undefined` when the key isn't
+ * handled by Vim emulation and should go through the keymap, e.g. any key
+ * other than `Escape` in insert mode.
+ */
+export function handleVimKey(
+	vim: VimState,
+	context: CommandContext,
+	input: string,
+	chord: string | undefined,
+): VimResult | undefined {
+	if (vim.mode === 'insert') {
+		return chord === 'escape' ? exitInsertMode(vim, context) : undefined;
+	}
+
+	if (chord === 'escape') {
+		return vim.mode === 'visual'
+			? {
+					vim: {...vim, mode: 'normal', pending: ''},
+					result: moveTo(context, context.state.cursorOffset),
+				}
+			: {vim: {...vim, pending: ''}};
+	}
+
+	if (chord === 'ctrl+r') {
+		return {vim, result: runCommand('redo', context)};
+	}
+
+	const keys = chord === undefined ? input : chordKeys[chord];
+
+	if (keys === undefined) {
+		return undefined;
+	}
+
+	return handleCommandKeys(vim, context, keys);
+}
@@ -0,0 +1,98 @@
+/**
+ * Word boundaries for code. Identifiers (letters with their accents, digits,
+ * `_` and `$`) form words, and so do runs of punctuation, so `foo.bar()` has
+ * the words `foo`, `.`, `bar` and `()`. Whitespace separates words and is
+ * skipped over.
+ */
+
+type CharClass = 'space' | 'identifier' | 'punctuation';
+
+function getCharClass(char: string): CharClass {
+	if (/\s/.test(char)) {
+		return 'space';
+	}
+
+	return /[\p{L}\p{M}\p{N}_$]/u.test(char) ? 'identifier' : 'punctuation';
+}
+
+/**
+ * Returns the offset of the start of the word before `offset`.
+ */
+export function findWordStart(value: string, offset: number): number {
+	let index = offset;
+
+	while (index > 0 && getCharClass(value[index - 1]!) === 'space') {
+		index--;
+	}
+
+	if (index === 0) {
+		return 0;
+	}
+
+	const wordClass = getCharClass(value[index - 1]!);
+
+	while (index > 0 && getCharClass(value[index - 1]!) === wordClass) {
+		index--;
+	}
+
+	return index;
+}
+
+/**
+ * Returns the offset of the end of the word after `offset`.
+ */
+export function findWordEnd(value: string, offset: number): number {
+	let index = offset;
+
+	while (index < value.length && getCharClass(value[index]!) === 'space') {
+		index++;
+	}
+
+	if (index === value.length) {
+		return value.length;
+	}
+
+	const wordClass = getCharClass(value[index]!);
+
+	while (index < value.length && getCharClass(value[index]!) === wordClass) {
+		index++;
+	}
+
+	return index;
+}
+
+/**
+ * Returns the offset of the start of the next word after `offset`, like Vim's `w`.
+ */
+export function findNextWordStart(value: string, offset: number): number {
+	let index = offset;
+
+	const wordClass =
+		index < value.length ? getCharClass(value[index]!) : 'space';
+
+	if (wordClass !== 'space') {
+		while (index < value.length && getCharClass(value[index]!) === wordClass) {
+			index++;
+		}
+	}
+
+	while (index < value.length && getCharClass(value[index]!) === 'space') {
+		index++;
+	}
+
+	return index;
+}
+
+/**
+ * Returns the offset where the identifier ending at `offset` starts,
+ * or `offset` itself when there is no identifier right before it.
+ */
+export function findIdentifierStart(value: string, offset: number): number {
+	let index = offset;
+
+	while (index > 0 && getCharClass(value[index - 1]!) === 'identifier') {
+		index--;
+	}
+
+	return index;
+}
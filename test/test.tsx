@@ -1,10 +1,26 @@
-import React, {useState} from 'react';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import React, {createRef, useRef, useState} from 'react';
 import test from 'ava';
 import chalk from 'chalk';
+import {Box, Text, useFocus, useInput} from 'ink';
 import {render} from 'ink-testing-library';
 import {spy} from 'sinon';
 import delay from 'delay';
-import TextInput, {UncontrolledTextInput} from '../source/index.js';
+import TextInput, {
+	UncontrolledTextInput,
+	createEditorState,
+	createHistoryStore,
+	getChord,
+	updateEditor,
+	useCodeEditor,
+	useKeypress,
+	type Decoration,
+	type Diagnostic,
+	type TextInputHandle,
+} from '../source/index.js';
 
 const noop = () => {
 	/* */
@@ -14,7 +30,34 @@ const cursor = chalk.inverse(' ');
 const enter = '\r';
 const arrowLeft = '\u001B[D';
 const arrowRight = '\u001B[C';
+const arrowUp = '\u001B[A';
+const arrowDown = '\u001B[B';
+const metaEnter = '\u001B\r';
 const del = '\u007F';
+const ctrlZ = '\u001A';
+const ctrlX = '\u0018';
+const ctrlA = '\u0001';
+const ctrlE = '\u0005';
+const ctrlK = '\u000B';
+const ctrlU = '\u0015';
+const ctrlW = '\u0017';
+const ctrlLeft = '\u001B[1;5D';
+const metaB = '\u001Bb';
+const metaF = '\u001Bf';
+const ctrlV = '\u0016';
+const shiftArrowLeft = '\u001B[1;2D';
+const shiftHome = '\u001B[1;2H';
+const shiftArrowUp = '\u001B[1;2A';
+const tab = '\t';
+const shiftTab = '\u001B[Z';
+const shiftEnter = '\u001B[13;2u';
+const ctrlF = '\u0006';
+const metaC = '\u001Bc';
+const metaR = '\u001Br';
+const metaW = '\u001Bw';
+const ctrlY = '\u0019';
+const ctrlR = '\u0012';
+const escape = '\u001B';
 
 test('default state', t => {
 	const {lastFrame} = render(<TextInput value="" onChange={noop} />);
@@ -344,3 +387,2183 @@ test('accept suggestion with right arrow', async t => {
 	t.true(onSuggestionAccept.calledWith('select * from users'));
 	t.true(onSuggestionAccept.calledOnce);
 });
+
+test('multiline - enter inserts a new line', async t => {
+	const onSubmit = spy();
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput multiline onSubmit={onSubmit} />,
+	);
+
+	await delay(100);
+	stdin.write('A');
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	stdin.write('B');
+	await delay(100);
+
+	t.is(lastFrame(), `A\nB${cursor}`);
+	t.true(onSubmit.notCalled);
+});
+
+test('multiline - submit with meta+enter', async t => {
+	const onSubmit = spy();
+
+	const {stdin} = render(
+		<UncontrolledTextInput multiline initialValue="A" onSubmit={onSubmit} />,
+	);
+
+	await delay(100);
+	stdin.write(metaEnter);
+	await delay(100);
+
+	t.true(onSubmit.calledWith('A'));
+	t.true(onSubmit.calledOnce);
+});
+
+test('multiline - submit with enter when configured', async t => {
+	const onSubmit = spy();
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			multiline
+			initialValue="A"
+			submitKey="enter"
+			onSubmit={onSubmit}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(metaEnter);
+	await delay(100);
+	t.is(lastFrame(), `A\n${cursor}`);
+
+	stdin.write(enter);
+	await delay(100);
+	t.true(onSubmit.calledWith('A\n'));
+});
+
+test('multiline - move between lines keeping the column', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput multiline initialValue={'abcd\nx\nabcd'} />,
+	);
+
+	await delay(100);
+	stdin.write(arrowUp);
+	await delay(100);
+	t.is(lastFrame(), `abcd\nx${cursor}\nabcd`);
+
+	stdin.write(arrowUp);
+	await delay(100);
+	t.is(lastFrame(), `abcd${cursor}\nx\nabcd`);
+
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(arrowDown);
+	await delay(100);
+	t.is(lastFrame(), `abcd\nx${cursor}\nabcd`);
+
+	stdin.write(arrowDown);
+	await delay(100);
+	t.is(lastFrame(), `abcd\nx\nabc${chalk.inverse('d')}`);
+});
+
+test('ignore up and down arrows in single-line mode', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="ab" />,
+	);
+
+	await delay(100);
+	stdin.write(arrowUp);
+	await delay(100);
+	t.is(lastFrame(), `ab${cursor}`);
+});
+
+test('undo and redo coalesced typing', async t => {
+	const {stdin, lastFrame} = render(<UncontrolledTextInput />);
+
+	await delay(100);
+	stdin.write('a');
+	await delay(100);
+	stdin.write('b');
+	await delay(100);
+	stdin.write('c');
+	await delay(100);
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.is(lastFrame(), cursor);
+
+	stdin.write(ctrlY);
+	await delay(100);
+	t.is(lastFrame(), `abc${cursor}`);
+});
+
+test('undo paste as a separate step', async t => {
+	const {stdin, lastFrame} = render(<UncontrolledTextInput />);
+
+	await delay(100);
+	stdin.write('a');
+	await delay(100);
+	stdin.write('Hello');
+	await delay(100);
+	stdin.write('b');
+	await delay(100);
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.is(lastFrame(), `aHello${cursor}`);
+
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.is(lastFrame(), `a${cursor}`);
+});
+
+test('restore cursor on undo', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="ab" />,
+	);
+
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write('x');
+	await delay(100);
+	t.is(lastFrame(), `ax${chalk.inverse('b')}`);
+
+	stdin.write(arrowRight);
+	await delay(100);
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.is(lastFrame(), `a${chalk.inverse('b')}`);
+});
+
+test('report undo state', async t => {
+	const onUndoStateChange = spy();
+
+	function Test() {
+		const [value, setValue] = useState('');
+
+		return (
+			<TextInput
+				value={value}
+				onChange={setValue}
+				onUndoStateChange={onUndoStateChange}
+			/>
+		);
+	}
+
+	const {stdin} = render(<Test />);
+
+	await delay(100);
+	stdin.write('a');
+	await delay(100);
+	t.deepEqual(onUndoStateChange.lastCall.args[0], {
+		canUndo: true,
+		canRedo: false,
+	});
+
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.deepEqual(onUndoStateChange.lastCall.args[0], {
+		canUndo: false,
+		canRedo: true,
+	});
+	t.is(onUndoStateChange.callCount, 2);
+});
+
+test('select with shift+arrows and replace selection', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="abc" />,
+	);
+
+	await delay(100);
+	stdin.write(shiftArrowLeft);
+	await delay(100);
+	stdin.write(shiftArrowLeft);
+	await delay(100);
+	t.is(lastFrame(), `a${chalk.inverse('b')}${chalk.bgBlue('c')}`);
+
+	stdin.write('x');
+	await delay(100);
+	t.is(lastFrame(), `ax${cursor}`);
+});
+
+test('collapse selection with arrow keys', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="abc" />,
+	);
+
+	await delay(100);
+	stdin.write(shiftHome);
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('a')}${chalk.bgBlue('bc')}`);
+
+	stdin.write(arrowRight);
+	await delay(100);
+	t.is(lastFrame(), `abc${cursor}`);
+});
+
+test('cut and paste selection', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="abc" />,
+	);
+
+	await delay(100);
+	stdin.write(shiftArrowLeft);
+	await delay(100);
+	stdin.write(shiftArrowLeft);
+	await delay(100);
+	stdin.write(ctrlX);
+	await delay(100);
+	t.is(lastFrame(), `a${cursor}`);
+
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(ctrlV);
+	await delay(100);
+	t.is(lastFrame(), `bc${chalk.inverse('a')}`);
+});
+
+test('onSelectionChange', async t => {
+	const onSelectionChange = spy();
+
+	const {stdin} = render(
+		<UncontrolledTextInput
+			initialValue="abc"
+			onSelectionChange={onSelectionChange}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(shiftArrowLeft);
+	await delay(100);
+	t.deepEqual(onSelectionChange.lastCall.args[0], {start: 2, end: 3});
+
+	stdin.write(arrowLeft);
+	await delay(100);
+	t.is(onSelectionChange.lastCall.args[0], undefined);
+	t.is(onSelectionChange.callCount, 2);
+});
+
+test('move to line start and end with Ctrl+A and Ctrl+E', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="abc" />,
+	);
+
+	await delay(100);
+	stdin.write(ctrlA);
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('a')}bc`);
+
+	stdin.write(ctrlE);
+	await delay(100);
+	t.is(lastFrame(), `abc${cursor}`);
+});
+
+test('move by words', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="foo.bar baz" />,
+	);
+
+	await delay(100);
+	stdin.write(metaB);
+	await delay(100);
+	t.is(lastFrame(), `foo.bar ${chalk.inverse('b')}az`);
+
+	stdin.write(metaB);
+	await delay(100);
+	t.is(lastFrame(), `foo.${chalk.inverse('b')}ar baz`);
+
+	stdin.write(ctrlLeft);
+	await delay(100);
+	t.is(lastFrame(), `foo${chalk.inverse('.')}bar baz`);
+
+	stdin.write(metaF);
+	await delay(100);
+	t.is(lastFrame(), `foo.${chalk.inverse('b')}ar baz`);
+});
+
+test('kill words and yank them back', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="select foo_bar" />,
+	);
+
+	await delay(100);
+	stdin.write(ctrlW);
+	await delay(100);
+	t.is(lastFrame(), `select ${cursor}`);
+
+	stdin.write(ctrlW);
+	await delay(100);
+	t.is(lastFrame(), cursor);
+
+	stdin.write(ctrlY);
+	await delay(100);
+	t.is(lastFrame(), `select foo_bar${cursor}`);
+});
+
+test('kill to line end and line start', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="abcd" />,
+	);
+
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(ctrlK);
+	await delay(100);
+	t.is(lastFrame(), `ab${cursor}`);
+
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(ctrlU);
+	await delay(100);
+	t.is(lastFrame(), chalk.inverse('b'));
+});
+
+test('ignore unbound control keys', async t => {
+	const {stdin, lastFrame} = render(<UncontrolledTextInput initialValue="a" />);
+
+	await delay(100);
+	stdin.write('\u0007');
+	await delay(100);
+	t.is(lastFrame(), `a${cursor}`);
+});
+
+test('rebind suggestion accept with keymap', async t => {
+	const getSuggestion = (v: string) =>
+		'select'.startsWith(v) ? 'select' : undefined;
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			initialValue="se"
+			getSuggestion={getSuggestion}
+			keymap={{tab: 'acceptSuggestion', right: 'cursorRight'}}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(arrowRight);
+	await delay(100);
+	t.is(lastFrame(), `se${cursor}${chalk.dim('lect')}`);
+
+	stdin.write('\t');
+	await delay(100);
+	t.is(lastFrame(), `select${cursor}`);
+});
+
+test('custom key handler and unbound chord', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			initialValue="abc"
+			keymap={{
+				/* eslint-disable @typescript-eslint/naming-convention */
+				'Ctrl+T': ({value}) => ({value: value.toUpperCase()}),
+				'ctrl+a': null,
+				/* eslint-enable @typescript-eslint/naming-convention */
+			}}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('\u0014');
+	await delay(100);
+	t.is(lastFrame(), `ABC${cursor}`);
+
+	stdin.write(ctrlA);
+	await delay(100);
+	t.is(lastFrame(), `ABC${cursor}`);
+});
+
+test('consume keys in onKeyDown', async t => {
+	const onKeyDown = spy(
+		({input}: {input: string; chord?: string}) => input === 'x',
+	);
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="a" onKeyDown={onKeyDown} />,
+	);
+
+	await delay(100);
+	stdin.write('x');
+	await delay(100);
+	stdin.write(ctrlA);
+	await delay(100);
+	t.is(lastFrame(), chalk.inverse('a'));
+	t.is(onKeyDown.lastCall.args[0].chord, 'ctrl+a');
+});
+
+test('delete character after cursor with Delete key', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="ab" />,
+	);
+
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write('\u001B[3~');
+	await delay(100);
+	t.is(lastFrame(), `a${cursor}`);
+});
+
+test('vim mode - delete words and repeat with dot', async t => {
+	const onVimModeChange = spy();
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			vimMode
+			initialValue="foo bar baz"
+			onVimModeChange={onVimModeChange}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('\u001B');
+	await delay(100);
+	t.is(lastFrame(), `foo bar ba${chalk.inverse('z')}`);
+	t.true(onVimModeChange.calledOnceWith('normal'));
+
+	stdin.write('0');
+	await delay(100);
+	stdin.write('dw');
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('b')}ar baz`);
+
+	stdin.write('.');
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('b')}az`);
+});
+
+test('vim mode - counts and undo', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput vimMode initialValue="abcdef" />,
+	);
+
+	await delay(100);
+	stdin.write('\u001B');
+	await delay(100);
+	stdin.write('0');
+	await delay(100);
+	stdin.write('2x');
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('c')}def`);
+
+	stdin.write('u');
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('a')}bcdef`);
+});
+
+test('vim mode - change word and repeat the insert', async t => {
+	const onVimModeChange = spy();
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			vimMode
+			initialValue="foo bar"
+			onVimModeChange={onVimModeChange}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('\u001B');
+	await delay(100);
+	stdin.write('0');
+	await delay(100);
+	stdin.write('cw');
+	await delay(100);
+	t.is(onVimModeChange.lastCall.args[0], 'insert');
+
+	stdin.write('baz');
+	await delay(100);
+	stdin.write('\u001B');
+	await delay(100);
+	t.is(lastFrame(), `ba${chalk.inverse('z')} bar`);
+
+	stdin.write('w');
+	await delay(100);
+	stdin.write('.');
+	await delay(100);
+	t.is(lastFrame(), `baz ba${chalk.inverse('z')}`);
+});
+
+test('vim mode - visual delete and linewise yank', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput vimMode multiline initialValue={'hello world\nb'} />,
+	);
+
+	await delay(100);
+	stdin.write('\u001B');
+	await delay(100);
+	stdin.write('k');
+	await delay(100);
+	stdin.write('0');
+	await delay(100);
+	stdin.write('v');
+	await delay(100);
+	stdin.write('e');
+	await delay(100);
+	t.is(lastFrame(), `${chalk.bgBlue('hell')}${chalk.inverse('o')} world\nb`);
+
+	stdin.write('d');
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse(' ')}world\nb`);
+
+	stdin.write('yy');
+	await delay(100);
+	stdin.write('p');
+	await delay(100);
+	t.is(lastFrame(), ` world\n${chalk.inverse(' ')}world\nb`);
+});
+
+const completionItems = [
+	{label: 'users', kind: 'table'},
+	{label: 'orders', kind: 'table'},
+	{label: 'user_id', kind: 'column', detail: 'int'},
+];
+
+test('completion menu - select and accept with Tab', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			initialValue="select"
+			getCompletions={() => completionItems}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(' u');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		[
+			`select u${cursor}`,
+			`       ${chalk.inverse('users   table ')}`,
+			`       user_id${chalk.dim(' column int')}`,
+		].join('\n'),
+	);
+
+	stdin.write(arrowDown);
+	await delay(100);
+	t.is(
+		lastFrame(),
+		[
+			`select u${cursor}`,
+			`       users  ${chalk.dim(' table ')}`,
+			`       ${chalk.inverse(`user_id column${chalk.dim(' int')}`)}`,
+		].join('\n'),
+	);
+
+	stdin.write('\t');
+	await delay(100);
+	t.is(lastFrame(), `select user_id${cursor}`);
+});
+
+test('completion menu - keep the focus when accepting with Tab', async t => {
+	const {stdin, lastFrame} = render(
+		<Box flexDirection="column">
+			<UncontrolledTextInput
+				focusId="first"
+				initialValue="select"
+				getCompletions={() => completionItems}
+			/>
+			<UncontrolledTextInput focusId="second" initialValue="x" />
+		</Box>,
+	);
+
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	stdin.write(' u');
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	stdin.write('!');
+	await delay(100);
+	t.is(lastFrame(), `select users!${cursor}\nx`);
+});
+
+test('vim mode - close the completion menu before leaving insert mode', async t => {
+	const onVimModeChange = spy();
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			vimMode
+			getCompletions={() => completionItems}
+			onVimModeChange={onVimModeChange}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('o');
+	await delay(100);
+	t.is(lastFrame(), `o${cursor}\n${chalk.inverse('orders table')}`);
+
+	stdin.write('\u001B');
+	await delay(100);
+	t.is(lastFrame(), `o${cursor}`);
+	t.true(onVimModeChange.notCalled);
+
+	stdin.write('\u001B');
+	await delay(100);
+	t.is(lastFrame(), chalk.inverse('o'));
+	t.true(onVimModeChange.calledOnceWith('normal'));
+});
+
+test('completion menu - filter, dismiss and accept with Enter', async t => {
+	const onSubmit = spy();
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			getCompletions={() => completionItems}
+			onSubmit={onSubmit}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('o');
+	await delay(100);
+	t.is(lastFrame(), `o${cursor}\n${chalk.inverse('orders table')}`);
+
+	stdin.write('\u001B');
+	await delay(100);
+	t.is(lastFrame(), `o${cursor}`);
+
+	stdin.write('r');
+	await delay(100);
+	t.is(lastFrame(), `or${cursor}\n${chalk.inverse('orders table')}`);
+
+	stdin.write('x');
+	await delay(100);
+	t.is(lastFrame(), `orx${cursor}`);
+
+	stdin.write(del);
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	t.is(lastFrame(), `orders${cursor}`);
+	t.true(onSubmit.notCalled);
+
+	stdin.write(enter);
+	await delay(100);
+	t.true(onSubmit.calledOnceWith('orders'));
+});
+
+test('async suggestion with loading indicator discards stale results', async t => {
+	const requests = new Map<
+		string,
+		{signal: AbortSignal; resolve: (suggestion: string) => void}
+	>();
+
+	const getSuggestion = async (
+		value: string,
+		{signal}: {signal: AbortSignal},
+	) =>
+		new Promise<string>(resolve => {
+			requests.set(value, {signal, resolve});
+		});
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			getSuggestion={getSuggestion}
+			loadingIndicator="…"
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('s');
+	await delay(100);
+	t.is(lastFrame(), `s${cursor}${chalk.dim('…')}`);
+
+	stdin.write('e');
+	await delay(100);
+	t.true(requests.get('s')?.signal.aborted);
+
+	requests.get('s')?.resolve('sum');
+	await delay(100);
+	t.is(lastFrame(), `se${cursor}${chalk.dim('…')}`);
+
+	requests.get('se')?.resolve('select');
+	await delay(100);
+	t.is(lastFrame(), `se${cursor}${chalk.dim('lect')}`);
+});
+
+test('debounce completion requests', async t => {
+	const getCompletions = spy(
+		(_value: string, _cursorOffset: number) => completionItems,
+	);
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput getCompletions={getCompletions} debounce={500} />,
+	);
+
+	await delay(100);
+	stdin.write('u');
+	await delay(50);
+	stdin.write('s');
+	await delay(50);
+	t.is(lastFrame(), `us${cursor}`);
+
+	await delay(600);
+	t.false(getCompletions.calledWith('u'));
+	t.true(getCompletions.calledWith('us', 2));
+	t.is(
+		lastFrame(),
+		`us${cursor}\n${chalk.inverse('users   table ')}\n${'user_id'}${chalk.dim(' column int')}`,
+	);
+});
+
+test('complete the token at the cursor in the middle of the value', async t => {
+	const onSuggestionAccept = spy();
+	const getSuggestion = spy(
+		(_value: string, {token}: {token: {text: string}}) =>
+			token.text === 'na' ? {text: 'name'} : undefined,
+	);
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			initialValue="select na from t"
+			getSuggestion={getSuggestion}
+			onSuggestionAccept={onSuggestionAccept}
+		/>,
+	);
+
+	await delay(100);
+
+	for (let i = 0; i < 7; i++) {
+		stdin.write(arrowLeft);
+		// eslint-disable-next-line no-await-in-loop
+		await delay(20);
+	}
+
+	await delay(100);
+	t.is(lastFrame(), `select na${chalk.dim('me')}${cursor}from t`);
+	t.like(getSuggestion.lastCall.args[1], {
+		cursorOffset: 9,
+		token: {start: 7, end: 9, text: 'na'},
+	});
+
+	stdin.write(arrowRight);
+	await delay(100);
+	t.is(lastFrame(), `select name${cursor}from t`);
+	t.true(onSuggestionAccept.calledOnceWith('name'));
+});
+
+test('show message of decoration under cursor and jump between decorations', async t => {
+	const decorations: Decoration[] = [
+		{
+			start: 0,
+			end: 5,
+			style: 'error',
+			message: 'Unknown keyword',
+			source: 'sql',
+		},
+		{start: 9, end: 13, style: {color: 'magenta'}, message: 'Unknown table'},
+	];
+
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			initialValue="selct * from tbl"
+			decorations={decorations}
+		/>,
+	);
+
+	const keyword = chalk.underline.red('selct');
+
+	await delay(100);
+	t.is(lastFrame(), `${keyword} * f${chalk.magenta('rom ')}tbl${cursor}`);
+
+	stdin.write('\u001Bp');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${keyword} * f${chalk.inverse('r')}${chalk.magenta('om ')}tbl\n${chalk.magenta('Unknown table')}`,
+	);
+
+	stdin.write('\u001Bp');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.inverse('s')}${chalk.underline.red('elct')} * f${chalk.magenta('rom ')}tbl\n${chalk.red('sql: Unknown keyword')}`,
+	);
+
+	stdin.write('\u001Bn');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${keyword} * f${chalk.inverse('r')}${chalk.magenta('om ')}tbl\n${chalk.magenta('Unknown table')}`,
+	);
+});
+
+test('highlight pasted text with syntax highlighting', async t => {
+	function StatefulTextInput() {
+		const [value, setValue] = useState('');
+
+		return (
+			<TextInput
+				highlightPastedText
+				language="sql"
+				value={value}
+				onChange={setValue}
+			/>
+		);
+	}
+
+	const {stdin, lastFrame} = render(<StatefulTextInput />);
+
+	await delay(100);
+	stdin.write('foo bar');
+	await delay(100);
+	t.is(lastFrame(), chalk.inverse('foo bar '));
+});
+
+test('keep token styles when the cursor splits a token', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput language="sql" initialValue="select 'abc'" />,
+	);
+
+	await delay(100);
+	t.is(lastFrame(), `${chalk.blue('select')} ${chalk.red("'abc'")}${cursor}`);
+
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.blue('select')} ${chalk.red(`'ab${chalk.inverse('c')}'`)}`,
+	);
+});
+
+test('highlight with a custom tokenizer and theme', t => {
+	const tokenizer = (text: string) =>
+		[...text.matchAll(/\$\w+/g)].map(match => ({
+			start: match.index,
+			end: match.index + match[0].length,
+			type: 'variable',
+		}));
+
+	const {lastFrame} = render(
+		<TextInput
+			value="get $user"
+			showCursor={false}
+			tokenizer={tokenizer}
+			theme={{tokens: {variable: {color: 'magenta'}}}}
+			onChange={noop}
+		/>,
+	);
+
+	t.is(lastFrame(), `get ${chalk.magenta('$user')}`);
+});
+
+test('highlight tokens of a custom tokenizer in any order', t => {
+	const tokenizer = () => [
+		{start: 4, end: 9, type: 'variable'},
+		{start: 0, end: 3, type: 'keyword'},
+	];
+
+	const {lastFrame} = render(
+		<TextInput
+			value="get $user"
+			showCursor={false}
+			tokenizer={tokenizer}
+			theme={{tokens: {variable: {color: 'magenta'}}}}
+			onChange={noop}
+		/>,
+	);
+
+	t.is(lastFrame(), `${chalk.blue('get')} ${chalk.magenta('$user')}`);
+});
+
+test('style sub-scopes over their parent scope', t => {
+	const {lastFrame} = render(
+		<TextInput
+			value="function foo() {}"
+			language="javascript"
+			showCursor={false}
+			theme={{tokens: {title: {bold: true}}}}
+			onChange={noop}
+		/>,
+	);
+
+	t.is(
+		lastFrame(),
+		`${chalk.blue('function')} ${chalk.bold.yellow('foo')}() {}`,
+	);
+});
+
+test('theme placeholder and decoration presets', t => {
+	const {lastFrame} = render(
+		<TextInput
+			value=""
+			placeholder="Query"
+			showCursor={false}
+			theme={{placeholder: {color: 'cyan'}}}
+			onChange={noop}
+		/>,
+	);
+
+	t.is(lastFrame(), chalk.cyan('Query'));
+
+	const {lastFrame: lastDecoratedFrame} = render(
+		<TextInput
+			value="selct"
+			showCursor={false}
+			theme={{decorations: {error: {color: 'magenta'}}}}
+			decorations={[{start: 0, end: 5, style: 'error'}]}
+			onChange={noop}
+		/>,
+	);
+
+	t.is(lastDecoratedFrame(), chalk.underline.magenta('selct'));
+});
+
+test.serial('use monochrome theme when NO_COLOR is set', t => {
+	const environment = {...process.env};
+	process.env['NO_COLOR'] = '1';
+	delete process.env['FORCE_COLOR'];
+
+	try {
+		const {lastFrame} = render(
+			<TextInput
+				value="select 1"
+				language="sql"
+				theme={{tokens: {keyword: {color: 'red'}}}}
+				onChange={noop}
+			/>,
+		);
+
+		t.is(lastFrame(), `${chalk.bold('select')} 1${cursor}`);
+	} finally {
+		process.env = environment;
+	}
+});
+
+test('move and delete by graphemes', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="a👍🏽b" />,
+	);
+
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	t.is(lastFrame(), `a${chalk.inverse('👍🏽')}b`);
+
+	stdin.write(arrowRight);
+	await delay(100);
+	stdin.write(del);
+	await delay(100);
+	t.is(lastFrame(), `a${chalk.inverse('b')}`);
+});
+
+test('keep the column of wide characters when moving between lines', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput multiline initialValue={'中文x\nabcd'} />,
+	);
+
+	await delay(100);
+	stdin.write(arrowUp);
+	await delay(100);
+	t.is(lastFrame(), `中文${chalk.inverse('x')}\nabcd`);
+});
+
+test('mask each grapheme with one character', t => {
+	const {lastFrame} = render(
+		<TextInput value="a👍🏽é" mask="*" onChange={noop} />,
+	);
+
+	t.is(lastFrame(), `***${cursor}`);
+});
+
+test('scroll a fixed-width viewport to keep the cursor visible', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="select * from users" width={10} />,
+	);
+
+	await delay(100);
+	t.is(lastFrame(), `${chalk.dim('…')}om users${cursor}`);
+
+	stdin.write(ctrlA);
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('s')}elect * ${chalk.dim('…')}`);
+});
+
+test('clip ghost text and placeholder to the viewport', t => {
+	const {lastFrame} = render(
+		<TextInput
+			value="sel"
+			width={8}
+			scrollIndicator="arrow"
+			getSuggestion={() => 'select * from users'}
+			onChange={noop}
+		/>,
+	);
+
+	t.is(lastFrame(), `sel${cursor}${chalk.dim('ect→')}`);
+
+	const {lastFrame: lastPlaceholderFrame} = render(
+		<TextInput
+			value=""
+			width={8}
+			placeholder="Enter a SQL query"
+			onChange={noop}
+		/>,
+	);
+
+	t.is(
+		lastPlaceholderFrame(),
+		`${chalk.inverse('E')}${chalk.grey('nter a')}${chalk.dim('…')}`,
+	);
+});
+
+test('recall submitted values and keep the draft', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput history={['select 1', 'select 2']} />,
+	);
+
+	await delay(100);
+	stdin.write('dr');
+	await delay(100);
+	stdin.write(arrowUp);
+	await delay(100);
+	t.is(lastFrame(), `select 2${cursor}`);
+
+	stdin.write(arrowUp);
+	await delay(100);
+	stdin.write(arrowUp);
+	await delay(100);
+	t.is(lastFrame(), `select 1${cursor}`);
+
+	stdin.write(arrowDown);
+	await delay(100);
+	stdin.write(arrowDown);
+	await delay(100);
+	t.is(lastFrame(), `dr${cursor}`);
+});
+
+test('add submitted values to a history store', async t => {
+	const history = createHistoryStore({entries: ['one']});
+
+	function Test() {
+		const [value, setValue] = useState('');
+
+		return (
+			<TextInput
+				value={value}
+				history={history}
+				onChange={setValue}
+				onSubmit={() => {
+					setValue('');
+				}}
+			/>
+		);
+	}
+
+	const {stdin, lastFrame} = render(<Test />);
+
+	await delay(100);
+	stdin.write('two');
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	t.deepEqual(history.getEntries(), ['one', 'two']);
+
+	stdin.write(arrowUp);
+	await delay(100);
+	t.is(lastFrame(), `two${cursor}`);
+});
+
+test('search the history in reverse', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			history={[
+				'select * from users',
+				'insert into logs',
+				'select id from orders',
+			]}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(ctrlR);
+	await delay(100);
+	stdin.write('sel');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.inverse('s')}${chalk.bgYellow('el')}ect id from orders\n${chalk.dim('reverse-i-search: sel')}`,
+	);
+
+	stdin.write(ctrlR);
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.inverse('s')}${chalk.bgYellow('el')}ect * from users\n${chalk.dim('reverse-i-search: sel')}`,
+	);
+
+	stdin.write('x');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.inverse('s')}elect * from users\n${chalk.dim('failing reverse-i-search: selx')}`,
+	);
+
+	stdin.write(escape);
+	await delay(100);
+	t.is(lastFrame(), cursor);
+});
+
+test('persist the history to a file', t => {
+	const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+	const file = path.join(directory, 'history');
+	const history = createHistoryStore({file, maxSize: 2});
+
+	for (const entry of ['a', 'b', 'a', ' ', 'c']) {
+		history.add(entry);
+	}
+
+	t.deepEqual(history.getEntries(), ['a', 'c']);
+	t.is(fs.readFileSync(file, 'utf8'), '"a"\n"c"\n');
+	t.deepEqual(createHistoryStore({file}).getEntries(), ['a', 'c']);
+
+	const jsonFile = path.join(directory, 'history.json');
+	createHistoryStore({file: jsonFile, dedupe: false}).add('a');
+	createHistoryStore({file: jsonFile, dedupe: false}).add('a');
+	t.deepEqual(JSON.parse(fs.readFileSync(jsonFile, 'utf8')), ['a', 'a']);
+
+	fs.rmSync(directory, {recursive: true});
+});
+
+test('start an empty history when the history file is corrupt', t => {
+	const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+	const file = path.join(directory, 'history.json');
+	fs.writeFileSync(file, '["a", ');
+
+	const history = createHistoryStore({file});
+	t.deepEqual(history.getEntries(), []);
+
+	history.add('b');
+	t.deepEqual(createHistoryStore({file}).getEntries(), ['b']);
+
+	fs.rmSync(directory, {recursive: true});
+});
+
+test('auto-close brackets and move over the closing one', async t => {
+	const {stdin, lastFrame} = render(<UncontrolledTextInput autoClosePairs />);
+
+	await delay(100);
+	stdin.write('(');
+	await delay(100);
+	t.is(lastFrame(), `(${chalk.inverse(')')}`);
+
+	stdin.write('a');
+	await delay(100);
+	stdin.write(')');
+	await delay(100);
+	t.is(lastFrame(), `(a)${cursor}`);
+
+	stdin.write('[');
+	await delay(100);
+	stdin.write(del);
+	await delay(100);
+	t.is(lastFrame(), `(a)${cursor}`);
+});
+
+test('auto-close quotes only where a string starts', async t => {
+	const {stdin, lastFrame} = render(<UncontrolledTextInput autoClosePairs />);
+
+	await delay(100);
+	stdin.write("it's ");
+	await delay(100);
+	stdin.write('"');
+	await delay(100);
+	t.is(lastFrame(), `it's "${chalk.inverse('"')}`);
+
+	stdin.write('"');
+	await delay(100);
+	stdin.write('"');
+	await delay(100);
+	t.is(lastFrame(), `it's """${cursor}`);
+});
+
+test('wrap the selection in brackets', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput autoClosePairs initialValue="ab" />,
+	);
+
+	await delay(100);
+	stdin.write(shiftArrowLeft);
+	await delay(100);
+	stdin.write(shiftArrowLeft);
+	await delay(100);
+	stdin.write('[');
+	await delay(100);
+	t.is(lastFrame(), `[${chalk.inverse('a')}${chalk.bgBlue('b')}]`);
+});
+
+test('highlight matching brackets outside of strings', t => {
+	const {lastFrame} = render(
+		<UncontrolledTextInput
+			matchBrackets
+			language="sql"
+			initialValue="max(')', (1))"
+		/>,
+	);
+
+	t.is(
+		lastFrame(),
+		`${chalk.cyan('max')}${chalk.bgGray('(')}${chalk.red("')'")}, (${chalk.green('1')})${chalk.bgGray(')')}${cursor}`,
+	);
+});
+
+test('indent to the next tab stop and outdent with Shift+Tab', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput indentWithTab initialValue="a" />,
+	);
+
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	t.is(lastFrame(), `a   ${cursor}`);
+
+	stdin.write(shiftTab);
+	await delay(100);
+	t.is(lastFrame(), `a   ${cursor}`);
+
+	stdin.write(ctrlA);
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	stdin.write(shiftTab);
+	await delay(100);
+	t.is(lastFrame(), `    ${chalk.inverse('a')}`);
+});
+
+test('only disable focus management while an editor indents with Tab', async t => {
+	function Focusable({id}: {readonly id: string}) {
+		const {isFocused} = useFocus({id});
+
+		return (
+			<Text>
+				{id}
+				{isFocused ? '*' : ''}
+			</Text>
+		);
+	}
+
+	function Test({
+		editorCount,
+		isIndenting = false,
+	}: {
+		readonly editorCount: number;
+		readonly isIndenting?: boolean;
+	}) {
+		return (
+			<Box flexDirection="column">
+				<Focusable id="a" />
+				<Focusable id="b" />
+				{Array.from({length: editorCount}, (_, index) => (
+					<TextInput
+						key={index}
+						value=""
+						showCursor={false}
+						indentWithTab={isIndenting}
+						onChange={noop}
+					/>
+				))}
+			</Box>
+		);
+	}
+
+	const {stdin, lastFrame, rerender} = render(<Test editorCount={1} />);
+
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	t.is(lastFrame(), 'a\nb*');
+
+	rerender(<Test isIndenting editorCount={2} />);
+	await delay(100);
+	rerender(<Test isIndenting editorCount={1} />);
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	t.is(lastFrame(), 'a\nb*');
+
+	rerender(<Test isIndenting editorCount={0} />);
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	t.is(lastFrame(), 'a*\nb');
+});
+
+test('indent and outdent selected lines', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			multiline
+			indentWithTab
+			tabWidth={2}
+			initialValue={'a\n\nb'}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(shiftArrowUp);
+	await delay(100);
+	stdin.write(shiftArrowUp);
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	t.is(lastFrame(), `  a${cursor}\n\n${chalk.bgBlue('  b')}`);
+
+	stdin.write(shiftTab);
+	await delay(100);
+	stdin.write(shiftTab);
+	await delay(100);
+	t.is(lastFrame(), `a${cursor}\n\n${chalk.bgBlue('b')}`);
+});
+
+test('insert tabs and draw them at the tab width', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			indentWithTab
+			insertSpaces={false}
+			tabWidth={2}
+			initialValue="a"
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	stdin.write('b');
+	await delay(100);
+	stdin.write(tab);
+	await delay(100);
+	t.is(lastFrame(), `a b ${cursor}`);
+});
+
+test('auto-indent new lines', async t => {
+	const onSubmit = spy();
+	const {stdin} = render(
+		<UncontrolledTextInput
+			multiline
+			autoClosePairs
+			language="javascript"
+			tabWidth={2}
+			onSubmit={onSubmit}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('  f');
+	await delay(100);
+	stdin.write('(');
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	stdin.write('x');
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	stdin.write(metaEnter);
+	await delay(100);
+	t.true(onSubmit.calledWith('  f(\n    x\n    \n  )'));
+});
+
+test('keep the indentation of plain text without indenting after brackets', async t => {
+	const onSubmit = spy();
+	const {stdin} = render(
+		<UncontrolledTextInput multiline initialValue="  (" onSubmit={onSubmit} />,
+	);
+
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	stdin.write(metaEnter);
+	await delay(100);
+	t.true(onSubmit.calledWith('  (\n  '));
+});
+
+test('find matches and move between them', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="from users join user_roles" />,
+	);
+
+	await delay(100);
+	stdin.write(ctrlF);
+	await delay(100);
+	stdin.write('user');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		[
+			`from ${chalk.inverse('u')}${chalk.bgMagenta('ser')}s join ${chalk.bgYellow('user')}_roles`,
+			`${chalk.dim('Find: ')}user${cursor} ${chalk.dim('Aa')} ${chalk.dim('W')} ${chalk.dim('.* 1 of 2')}`,
+		].join('\n'),
+	);
+
+	stdin.write(enter);
+	await delay(100);
+	t.is(
+		lastFrame()!.split('\n')[0],
+		`from ${chalk.bgYellow('user')}s join ${chalk.inverse('u')}${chalk.bgMagenta('ser')}_roles`,
+	);
+
+	stdin.write(shiftEnter);
+	await delay(100);
+	stdin.write(escape);
+	await delay(100);
+	t.is(lastFrame(), `from ${chalk.inverse('u')}sers join user_roles`);
+});
+
+test('find whole words, case-sensitively and with regexes', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="Foo foobar foo" />,
+	);
+
+	await delay(100);
+	stdin.write(ctrlF);
+	await delay(100);
+	stdin.write('foo');
+	await delay(100);
+	t.true(lastFrame()!.endsWith(chalk.dim('.* 1 of 3')));
+
+	stdin.write(metaW);
+	await delay(100);
+	t.true(lastFrame()!.endsWith(chalk.dim('.* 1 of 2')));
+
+	stdin.write(metaC);
+	await delay(100);
+	t.true(
+		lastFrame()!.endsWith(`${chalk.inverse('W')} ${chalk.dim('.* 1 of 1')}`),
+	);
+
+	stdin.write(metaR);
+	await delay(100);
+	stdin.write('(');
+	await delay(100);
+	t.true(lastFrame()!.endsWith(chalk.dim(' Invalid regular expression')));
+});
+
+test('replace matches as single undo steps', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="a1 b22 c3" />,
+	);
+
+	await delay(100);
+	stdin.write(ctrlF);
+	await delay(100);
+	stdin.write(metaR);
+	await delay(100);
+	stdin.write(String.raw`(\w)(\d+)`);
+	await delay(100);
+	stdin.write('\t');
+	await delay(100);
+	stdin.write('$2$1');
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	t.is(
+		lastFrame()!.split('\n')[0],
+		`1a ${chalk.inverse('b')}${chalk.bgMagenta('22')} ${chalk.bgYellow('c3')}`,
+	);
+
+	stdin.write(metaEnter);
+	await delay(100);
+	stdin.write(escape);
+	await delay(100);
+	t.is(lastFrame(), `1a 22b 3c${cursor}`);
+
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.is(lastFrame(), `1a ${chalk.inverse('b')}22 c3`);
+
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('a')}1 b22 c3`);
+});
+
+test('control the cursor', async t => {
+	const onCursorChange = spy();
+	let moveCursor: (cursorOffset: number) => void = noop;
+
+	function Test() {
+		const [value, setValue] = useState('select 1');
+		const [cursorOffset, setCursorOffset] = useState(0);
+		moveCursor = setCursorOffset;
+
+		return (
+			<TextInput
+				value={value}
+				cursorOffset={cursorOffset}
+				onChange={setValue}
+				onCursorChange={offset => {
+					onCursorChange(offset);
+					setCursorOffset(offset);
+				}}
+			/>
+		);
+	}
+
+	const {stdin, lastFrame} = render(<Test />);
+
+	await delay(100);
+	t.is(lastFrame(), `${chalk.inverse('s')}elect 1`);
+
+	stdin.write(arrowRight);
+	await delay(100);
+	t.true(onCursorChange.calledOnceWith(1));
+	t.is(lastFrame(), `s${chalk.inverse('e')}lect 1`);
+
+	moveCursor(7);
+	await delay(100);
+	stdin.write('x');
+	await delay(100);
+	t.is(lastFrame(), `select x${chalk.inverse('1')}`);
+	t.true(onCursorChange.calledWith(8));
+});
+
+test('edit through a ref handle', async t => {
+	const ref = createRef<TextInputHandle>();
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput ref={ref} initialValue="select  from t" />,
+	);
+
+	await delay(100);
+	ref.current!.setCursor(7);
+	await delay(100);
+	ref.current!.insertText('users');
+	await delay(100);
+	t.is(lastFrame(), `select users${chalk.inverse(' ')}from t`);
+	t.deepEqual(ref.current!.getCursor(), {
+		cursorOffset: 12,
+		selection: undefined,
+	});
+
+	ref.current!.replaceRange({start: 0, end: 6}, 'SELECT');
+	await delay(100);
+	ref.current!.selectAll();
+	await delay(100);
+	t.is(lastFrame(), `${chalk.bgBlue('SELECT users from t')}${cursor}`);
+	t.deepEqual(ref.current!.getCursor().selection, {start: 0, end: 19});
+
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.is(lastFrame(), `select users${cursor}from t`);
+});
+
+test('get the cursor right after edits through the ref handle', async t => {
+	const cursors: Array<ReturnType<TextInputHandle['getCursor']>> = [];
+
+	function Test() {
+		const ref = useRef<TextInputHandle>(null);
+
+		// Ink batches the updates of input handlers, so the editor renders after both edits
+		useInput(input => {
+			if (input === '!') {
+				ref.current!.setCursor(7, 0);
+				cursors.push(ref.current!.getCursor());
+				ref.current!.setCursor(7);
+				ref.current!.insertText('users');
+				cursors.push(ref.current!.getCursor());
+			}
+		});
+
+		return (
+			<UncontrolledTextInput
+				ref={ref}
+				focus={false}
+				initialValue="select  from t"
+			/>
+		);
+	}
+
+	const {stdin} = render(<Test />);
+
+	await delay(100);
+	stdin.write('!');
+	await delay(100);
+	t.deepEqual(cursors, [
+		{cursorOffset: 7, selection: {start: 0, end: 7}},
+		{cursorOffset: 12, selection: undefined},
+	]);
+});
+
+test('clamp replaced ranges to the value', t => {
+	const clamped = updateEditor(createEditorState('ab'), {
+		type: 'replaceRange',
+		range: {start: -3, end: 100},
+		text: 'x',
+	});
+
+	t.like(clamped.state, {value: 'x', cursorOffset: 1});
+
+	const reversed = updateEditor(createEditorState('abc'), {
+		type: 'replaceRange',
+		range: {start: 2, end: 1},
+		text: 'x',
+	});
+
+	t.like(reversed.state, {value: 'axc', cursorOffset: 2});
+});
+
+test('report the edits that commands made', t => {
+	const getChanges = (
+		value: string,
+		keys: Array<string | {chord: string}>,
+		options?: Parameters<typeof updateEditor>[2],
+	) => {
+		let state = createEditorState(value, 0);
+		const changes = [];
+
+		for (const key of keys) {
+			const update = updateEditor(
+				state,
+				typeof key === 'string'
+					? {type: 'keypress', input: key}
+					: {type: 'keypress', input: '', chord: key.chord},
+				options,
+			);
+			state = update.state;
+			changes.push(
+				...update.events.flatMap(event =>
+					event.type === 'change' ? [event.change] : [],
+				),
+			);
+		}
+
+		return changes;
+	};
+
+	t.deepEqual(
+		getChanges('in', [{chord: 'tab'}], {
+			completion: {
+				// eslint-disable-next-line no-template-curly-in-string
+				items: [{label: 'insert', insertText: 'in ${1:t}', isSnippet: true}],
+				selectedIndex: 0,
+				range: {start: 0, end: 2},
+			},
+		}),
+		[{range: {start: 2, end: 2}, text: ' t', cause: 'suggestion'}],
+	);
+
+	t.deepEqual(
+		getChanges('ab', [{chord: 'escape'}, 'y', 'y', 'p'], {vimMode: true}),
+		[{range: {start: 2, end: 2}, text: '\nab', cause: 'paste'}],
+	);
+
+	t.deepEqual(
+		getChanges('a b a', [
+			{chord: 'ctrl+f'},
+			'a',
+			{chord: 'tab'},
+			'x',
+			{chord: 'meta+enter'},
+			{chord: 'escape'},
+			{chord: 'ctrl+z'},
+		]),
+		[
+			{range: {start: 4, end: 5}, text: 'x', cause: 'command'},
+			{range: {start: 0, end: 1}, text: 'x', cause: 'command'},
+			{range: {start: 0, end: 1}, text: 'a', cause: 'undo'},
+			{range: {start: 4, end: 5}, text: 'a', cause: 'undo'},
+		],
+	);
+});
+
+test('focus an input through Ink with the ref handle', async t => {
+	const ref = createRef<TextInputHandle>();
+	const {stdin, lastFrame} = render(
+		<Box flexDirection="column">
+			<UncontrolledTextInput focusId="first" initialValue="x" />
+			<UncontrolledTextInput ref={ref} focusId="second" initialValue="y" />
+		</Box>,
+	);
+
+	await delay(100);
+	ref.current!.focus();
+	await delay(100);
+	stdin.write('a');
+	await delay(100);
+	t.is(lastFrame(), `x\nya${cursor}`);
+});
+
+test('update the editor state without rendering', t => {
+	const typed = updateEditor(createEditorState('select 1'), {
+		type: 'keypress',
+		input: '0',
+	});
+
+	t.is(typed.state.value, 'select 10');
+	t.deepEqual(typed.events, [
+		{type: 'cursorChange', cursorOffset: 9},
+		{type: 'undoStateChange', canUndo: true, canRedo: false},
+		{
+			type: 'change',
+			value: 'select 10',
+			change: {range: {start: 8, end: 8}, text: '0', cause: 'typing'},
+		},
+	]);
+
+	const undone = updateEditor(typed.state, {type: 'command', command: 'undo'});
+
+	t.is(undone.state.value, 'select 1');
+	t.is(undone.state.cursorOffset, 8);
+
+	const submitted = updateEditor(undone.state, {
+		type: 'keypress',
+		input: enter,
+		chord: 'enter',
+	});
+
+	t.deepEqual(submitted.events, [{type: 'submit', value: 'select 1'}]);
+});
+
+test('render a custom view with useCodeEditor', async t => {
+	function Editor() {
+		const [value, setValue] = useState('selct');
+		const {state, segments, dispatch} = useCodeEditor({
+			value,
+			onChange: setValue,
+		});
+
+		useInput((input, key) => {
+			dispatch({
+				type: 'keypress',
+				input,
+				chord: key.leftArrow ? 'left' : undefined,
+			});
+		});
+
+		return (
+			<Text>
+				{segments.map(seg => (seg.isCursor ? `[${seg.text}]` : seg.text))}
+				{state.cursorOffset === value.length && '[]'}
+			</Text>
+		);
+	}
+
+	const {stdin, lastFrame} = render(<Editor />);
+
+	await delay(100);
+	t.is(lastFrame(), 'selct[]');
+
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write('e');
+	await delay(100);
+	t.is(lastFrame(), 'sele[c]t');
+});
+
+test('dispatch chords from useKeypress to useCodeEditor', async t => {
+	function Editor() {
+		const [value, setValue] = useState('select');
+		const {state, segments, dispatch} = useCodeEditor({
+			value,
+			onChange: setValue,
+		});
+
+		useKeypress((input, key) => {
+			dispatch({type: 'keypress', input, chord: getChord(input, key)});
+		});
+
+		return (
+			<Text>
+				{segments.map(seg => (seg.isCursor ? `[${seg.text}]` : seg.text))}
+				{state.cursorOffset === value.length && '[]'}
+			</Text>
+		);
+	}
+
+	const {stdin, lastFrame} = render(<Editor />);
+
+	await delay(100);
+	stdin.write('\u001B[H');
+	await delay(100);
+	t.is(lastFrame(), '[s]elect');
+
+	stdin.write('\u001B[3~');
+	await delay(100);
+	t.is(lastFrame(), '[e]lect');
+});
+
+test('describe changes passed to onChange', async t => {
+	const onChange = spy();
+
+	function Editor() {
+		const [value, setValue] = useState('helo');
+
+		return (
+			<TextInput
+				value={value}
+				getSuggestion={() => 'hello world'}
+				onChange={(value, change) => {
+					setValue(value);
+					onChange(value, change);
+				}}
+			/>
+		);
+	}
+
+	const {stdin} = render(<Editor />);
+
+	await delay(100);
+	stdin.write(arrowLeft);
+	await delay(100);
+	stdin.write('l');
+	await delay(100);
+	t.deepEqual(onChange.lastCall.args, [
+		'hello',
+		{range: {start: 3, end: 3}, text: 'l', cause: 'typing'},
+	]);
+
+	stdin.write(ctrlE);
+	await delay(100);
+	stdin.write(arrowRight);
+	await delay(100);
+	t.deepEqual(onChange.lastCall.args, [
+		'hello world',
+		{range: {start: 5, end: 5}, text: ' world', cause: 'suggestion'},
+	]);
+
+	stdin.write(ctrlZ);
+	await delay(100);
+	t.deepEqual(onChange.lastCall.args, [
+		'hello',
+		{range: {start: 5, end: 11}, text: '', cause: 'undo'},
+	]);
+
+	stdin.write('!?');
+	await delay(100);
+	t.deepEqual(onChange.lastCall.args[1], {
+		range: {start: 5, end: 5},
+		text: '!?',
+		cause: 'paste',
+	});
+});
+
+test('move decorations along with edits until new ones are passed', async t => {
+	const decorations: Decoration[] = [{start: 7, end: 8, style: 'error'}];
+
+	function Editor({decorations}: {readonly decorations: Decoration[]}) {
+		const [value, setValue] = useState('select x from t');
+
+		return (
+			<TextInput
+				value={value}
+				decorations={decorations}
+				cursorOffset={0}
+				onChange={setValue}
+			/>
+		);
+	}
+
+	const {stdin, lastFrame, rerender} = render(
+		<Editor decorations={decorations} />,
+	);
+
+	await delay(100);
+	stdin.write('  ');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.inverse(' ')} select ${chalk.underline.red('x')} from t`,
+	);
+
+	rerender(<Editor decorations={[{start: 0, end: 2, style: 'error'}]} />);
+	await delay(100);
+	t.is(lastFrame(), `${cursor}${chalk.underline.red(' ')}select x from t`);
+});
+
+test('keep moved decorations when the same ones are passed again', async t => {
+	function Editor() {
+		const [value, setValue] = useState('select x from t');
+
+		return (
+			<TextInput
+				value={value}
+				decorations={[{start: 7, end: 8, style: 'error'}]}
+				cursorOffset={0}
+				onChange={setValue}
+			/>
+		);
+	}
+
+	const {stdin, lastFrame} = render(<Editor />);
+
+	await delay(100);
+	stdin.write('  ');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.inverse(' ')} select ${chalk.underline.red('x')} from t`,
+	);
+});
+
+test('keep the cursor on the same text when the value changes from outside', async t => {
+	const {stdin, lastFrame, rerender} = render(
+		<TextInput value="select * from users" onChange={noop} />,
+	);
+
+	await delay(100);
+
+	for (let index = 0; index < 5; index++) {
+		stdin.write(arrowLeft);
+		// eslint-disable-next-line no-await-in-loop
+		await delay(50);
+	}
+
+	rerender(<TextInput value="SELECT * FROM users" onChange={noop} />);
+	await delay(100);
+	t.is(lastFrame(), `SELECT * FROM ${chalk.inverse('u')}sers`);
+
+	rerender(<TextInput value="SELECT DISTINCT * FROM users" onChange={noop} />);
+	await delay(100);
+	t.is(lastFrame(), `SELECT DISTINCT * FROM ${chalk.inverse('u')}sers`);
+
+	rerender(<TextInput value="" onChange={noop} />);
+	await delay(100);
+	t.is(lastFrame(), cursor);
+});
+
+test('place the cursor passed along with a value changed from outside', async t => {
+	const {lastFrame, rerender} = render(
+		<TextInput value="select * from users" onChange={noop} />,
+	);
+
+	await delay(100);
+	rerender(
+		<TextInput
+			value="SELECT * FROM users"
+			externalCursor={{cursorOffset: 6, selectionAnchor: 0}}
+			onChange={noop}
+		/>,
+	);
+	await delay(100);
+	t.is(lastFrame(), `${chalk.bgBlue('SELECT')}${cursor}* FROM users`);
+});
+
+const lintTypos = (value: string): Diagnostic[] =>
+	[...value.matchAll(/selct/g)].map(match => ({
+		start: match.index,
+		end: match.index + match[0].length,
+		severity: 'error',
+		message: 'Unknown keyword',
+		source: 'sql',
+		fixes: [{title: 'Replace with "select"', text: 'select'}],
+	}));
+
+test('show diagnostics with a summary and apply quick fixes', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput initialValue="selct 1" getDiagnostics={lintTypos} />,
+	);
+
+	await delay(100);
+	t.is(
+		lastFrame(),
+		`${chalk.underline.red('selct')} 1${cursor}\n${chalk.red('1 error')}`,
+	);
+
+	stdin.write(ctrlA);
+	await delay(100);
+	t.is(
+		lastFrame(),
+		[
+			`${chalk.inverse('s')}${chalk.underline.red('elct')} 1`,
+			chalk.red(`sql: Unknown keyword${chalk.dim(' (Replace with "select")')}`),
+			chalk.red('1 error'),
+		].join('\n'),
+	);
+
+	stdin.write('\u001Bq');
+	await delay(100);
+	t.is(lastFrame(), `select${chalk.inverse(' ')}1`);
+});
+
+test('prevent submitting while there are errors', async t => {
+	const onSubmit = spy();
+	const {stdin} = render(
+		<UncontrolledTextInput
+			preventSubmitOnError
+			initialValue="selct 1"
+			getDiagnostics={lintTypos}
+			onSubmit={onSubmit}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	t.true(onSubmit.notCalled);
+
+	stdin.write(ctrlA);
+	await delay(100);
+	stdin.write('\u001Bq');
+	await delay(100);
+	stdin.write(enter);
+	await delay(100);
+	t.true(onSubmit.calledOnceWith('select 1'));
+});
+
+test('move diagnostics along with edits until new ones are returned', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			initialValue="selct 1"
+			getDiagnostics={async value => {
+				await delay(300);
+				return lintTypos(value);
+			}}
+		/>,
+	);
+
+	await delay(400);
+	stdin.write(ctrlA);
+	await delay(100);
+	stdin.write('x');
+	await delay(100);
+	t.is(
+		lastFrame(),
+		[
+			`x${chalk.inverse('s')}${chalk.underline.red('elct')} 1`,
+			chalk.red(`sql: Unknown keyword${chalk.dim(' (Replace with "select")')}`),
+			chalk.red('1 error'),
+		].join('\n'),
+	);
+});
+
+test('ignore diagnostics providers that throw', async t => {
+	const getDiagnostics = () => {
+		throw new Error('Linter crashed');
+	};
+
+	const {stdin, lastFrame} = render(
+		<Box flexDirection="column">
+			<UncontrolledTextInput
+				initialValue="a"
+				focus={false}
+				getDiagnostics={getDiagnostics}
+			/>
+			<UncontrolledTextInput
+				initialValue="b"
+				debounce={50}
+				getDiagnostics={getDiagnostics}
+			/>
+		</Box>,
+	);
+
+	await delay(100);
+	stdin.write('c');
+	await delay(100);
+	t.is(lastFrame(), `a\nbc${cursor}`);
+});
+
+test('insert snippets from completion items and move between their fields', t => {
+	const tab = {type: 'keypress', input: '\t', chord: 'tab'} as const;
+	const shiftTab = {type: 'keypress', input: '', chord: 'shift+tab'} as const;
+	const accepted = updateEditor(createEditorState('ins'), tab, {
+		completion: {
+			items: [
+				{
+					label: 'insert',
+					// eslint-disable-next-line no-template-curly-in-string
+					insertText: 'INSERT INTO ${1:table} (${2:cols}) VALUES ($3)',
+					isSnippet: true,
+				},
+			],
+			selectedIndex: 0,
+			range: {start: 0, end: 3},
+		},
+	});
+
+	t.is(accepted.state.value, 'INSERT INTO table (cols) VALUES ()');
+	t.like(accepted.state, {selectionAnchor: 12, cursorOffset: 17});
+
+	const typed = updateEditor(accepted.state, {
+		type: 'keypress',
+		input: 'users',
+	});
+	const second = updateEditor(typed.state, tab);
+
+	t.is(second.state.value, 'INSERT INTO users (cols) VALUES ()');
+	t.like(second.state, {selectionAnchor: 19, cursorOffset: 23});
+
+	const first = updateEditor(second.state, shiftTab);
+
+	t.like(first.state, {selectionAnchor: 12, cursorOffset: 17});
+
+	const third = updateEditor(updateEditor(first.state, tab).state, tab);
+
+	t.like(third.state, {selectionAnchor: undefined, cursorOffset: 33});
+	t.not(third.state.snippet, undefined);
+
+	const exited = updateEditor(third.state, tab);
+
+	t.is(exited.state.cursorOffset, 34);
+	t.is(exited.state.snippet, undefined);
+});
+
+test('place snippet fields in clamped completion ranges', t => {
+	const accept = (range: {start: number; end: number}) =>
+		updateEditor(
+			createEditorState('ins'),
+			{type: 'keypress', input: '\t', chord: 'tab'},
+			{
+				completion: {
+					items: [
+						{
+							label: 'insert',
+							// eslint-disable-next-line no-template-curly-in-string
+							insertText: 'INTO ${1:t}',
+							isSnippet: true,
+						},
+					],
+					selectedIndex: 0,
+					range,
+				},
+			},
+		).state;
+
+	t.like(accept({start: 3, end: 0}), {
+		value: 'INTO t',
+		selectionAnchor: 5,
+		cursorOffset: 6,
+	});
+	t.like(accept({start: -2, end: 3}), {
+		value: 'INTO t',
+		selectionAnchor: 5,
+		cursorOffset: 6,
+	});
+});
+
+test('update mirrored snippet fields together until escape is pressed', async t => {
+	const {stdin, lastFrame} = render(
+		<UncontrolledTextInput
+			// eslint-disable-next-line no-template-curly-in-string
+			getSuggestion={() => ({text: 'for ${1:i} in $1s', isSnippet: true})}
+		/>,
+	);
+
+	await delay(100);
+	stdin.write('f');
+	await delay(100);
+	stdin.write(arrowRight);
+	await delay(100);
+	stdin.write('x');
+	await delay(100);
+	t.is(lastFrame(), `for x${cursor}in xs`);
+
+	stdin.write('\u001B');
+	await delay(100);
+	stdin.write('y');
+	await delay(100);
+	t.is(lastFrame(), `for xy${cursor}in xs`);
+});